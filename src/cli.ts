@@ -0,0 +1,642 @@
+import { mkdir, readFile, readdir, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { loadConfig, parseConfigJson } from './config'
+import {
+  conversionPresets,
+  convertHtmlToMarkdownAST,
+  markdownASTToString,
+  resolveConversionOptions,
+} from './index'
+import type { HtmlConversionOptions } from './types/markdownTypes'
+
+type OptionType =
+  | 'boolean'
+  | 'string'
+  | 'number'
+  | 'list'
+  | 'json'
+  | 'stringOrJson'
+  | 'booleanOrJson'
+  | 'file'
+  | readonly string[]
+
+type OptionFlag = {
+  name: keyof HtmlConversionOptions
+  type: OptionType
+  short?: string
+  description: string
+}
+
+/**
+ * The flags of the conversion options, named after them in kebab case.
+ * Options that take functions or receive output can only be used through
+ * the API.
+ */
+const optionFlags: OptionFlag[] = [
+  {
+    name: 'preset',
+    type: 'list',
+    short: 'p',
+    description: `Apply these presets (${Object.keys(conversionPresets).join(', ')})`,
+  },
+  {
+    name: 'extractMainContent',
+    type: 'boolean',
+    short: 'e',
+    description: 'Extract the main content of the page',
+  },
+  {
+    name: 'mainContentCandidates',
+    type: 'number',
+    description: 'Merge this many of the best main content candidates',
+  },
+  {
+    name: 'contentScoring',
+    type: 'json',
+    description: 'Options for scoring main content candidates, as JSON',
+  },
+  {
+    name: 'removeBoilerplate',
+    type: 'booleanOrJson',
+    description: 'Skip cookie banners, modals, share bars, ads and such',
+  },
+  {
+    name: 'includeMetaData',
+    type: ['basic', 'extended'],
+    description: 'Include metadata from the HTML head',
+  },
+  {
+    name: 'excludeTagNames',
+    type: 'list',
+    description: 'Skip these tags (comma-separated)',
+  },
+  {
+    name: 'excludeInvisibleElements',
+    type: 'boolean',
+    description: 'Skip elements that are not visible',
+  },
+  {
+    name: 'websiteDomain',
+    type: 'string',
+    description: 'Remove this domain from the start of URLs',
+  },
+  {
+    name: 'baseUrl',
+    type: 'string',
+    description: 'Resolve relative URLs against this URL',
+  },
+  {
+    name: 'sameOriginUrls',
+    type: ['absolute', 'root-relative'],
+    description: 'How to write URLs with the origin of the base URL',
+  },
+  {
+    name: 'cleanUrls',
+    type: 'boolean',
+    description: 'Unwrap redirect URLs and remove tracking parameters',
+  },
+  {
+    name: 'refifyUrls',
+    type: 'booleanOrJson',
+    description: 'Replace long URLs with short refs',
+  },
+  {
+    name: 'urlMap',
+    type: 'file',
+    description: 'Read and update the refs of refifyUrls in this JSON file',
+  },
+  {
+    name: 'emitRefTable',
+    type: 'boolean',
+    description: 'Append a table of the refs and their URLs',
+  },
+  {
+    name: 'siteProfile',
+    type: 'file',
+    description: 'Remove the template blocks of this site profile JSON file',
+  },
+  {
+    name: 'enableTableColumnTracking',
+    type: 'boolean',
+    short: 't',
+    description: 'Add unique identifiers to table columns',
+  },
+  {
+    name: 'extractFootnotes',
+    type: 'boolean',
+    description: 'Convert footnotes to Markdown footnotes',
+  },
+  {
+    name: 'enableSourceTracking',
+    type: 'boolean',
+    description: 'Add the selector and XPath of its element to each node',
+  },
+  {
+    name: 'indexInteractiveElements',
+    type: 'boolean',
+    description: 'Assign IDs to links, form controls and widgets',
+  },
+  {
+    name: 'emitFrontMatter',
+    type: 'boolean',
+    description: 'Include the metadata as front matter',
+  },
+  {
+    name: 'inlineSemanticRendering',
+    type: 'stringOrJson',
+    description: 'Render <sup>, <kbd> and such as html, markdown or text',
+  },
+  {
+    name: 'linkStyle',
+    type: ['inline', 'reference'],
+    description: 'Render links inline or as references',
+  },
+  {
+    name: 'linkReferencePlacement',
+    type: ['document', 'section'],
+    description: 'Where to put link definitions',
+  },
+  {
+    name: 'mediaLabels',
+    type: 'json',
+    description: 'Labels for rendering media, as JSON',
+  },
+]
+
+const usage = `Usage: d2m [options] [inputs...]
+
+Converts HTML to Markdown. Inputs are files, glob patterns (like
+"pages/**/*.html"), URLs, or "-" for stdin, which is the default.
+
+Output options:
+  -o, --output <file>   Write the output to this file
+  -d, --out-dir <dir>   Write one file per input to this directory,
+                        mirroring the input tree
+      --ast             Output the Markdown AST as JSON
+  -h, --help            Show this help
+
+Config options:
+  -c, --config <file>   Use this config file, instead of the d2m.config.js
+                        or d2m.config.json file in the current directory
+      --no-config       Do not use a config file
+
+Conversion options:
+${optionFlags.map(formatOptionHelp).join('\n')}
+`
+
+type CliIO = {
+  readStdin: () => Promise<string>
+  write: (text: string) => void
+  error: (text: string) => void
+}
+
+const defaultIO: CliIO = {
+  async readStdin() {
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) {
+      chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks).toString('utf8')
+  },
+  write: text => process.stdout.write(text),
+  error: text => process.stderr.write(text),
+}
+
+/**
+ * A failure that ends the CLI, reported without a stack trace.
+ */
+class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode = 1,
+  ) {
+    super(message)
+  }
+}
+
+type Input = {
+  /**
+   * The input as given, for diagnostics.
+   */
+  name: string
+  kind: 'file' | 'url' | 'stdin'
+  /**
+   * The path of a file input, or the URL of a URL input.
+   */
+  location: string
+}
+
+/**
+ * Run the `d2m` command with the given arguments.
+ * @returns The exit code: 0 on success, 1 when an input failed, and 2 for
+ * invalid arguments.
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = defaultIO,
+): Promise<number> {
+  try {
+    return await convertInputs(args, io)
+  } catch (error) {
+    if (error instanceof CliError) {
+      io.error(`d2m: ${error.message}\n`)
+      if (error.exitCode === 2) {
+        io.error('Run "d2m --help" for usage.\n')
+      }
+      return error.exitCode
+    }
+    throw error
+  }
+}
+
+async function convertInputs(args: string[], io: CliIO) {
+  const { values, positionals } = parseCliArgs(args)
+  if (values.help) {
+    io.write(usage)
+    return 0
+  }
+
+  const options = await getConversionOptions(values)
+  options.config = await getConfig(values)
+  const inputs = await resolveInputs(positionals.length ? positionals : ['-'])
+  const outDir = values['out-dir'] as string | undefined
+  const output = values.output as string | undefined
+  if (output && outDir) {
+    throw new CliError('--output and --out-dir cannot be used together', 2)
+  }
+  if (inputs.length > 1 && !outDir) {
+    throw new CliError('multiple inputs need --out-dir', 2)
+  }
+
+  const extension = values.ast ? '.json' : '.md'
+  const inputRoot = getCommonDirectory(
+    inputs.filter(_ => _.kind === 'file').map(_ => _.location),
+  )
+
+  let failed = false
+  for (const input of inputs) {
+    try {
+      const html = await readInput(input, io)
+      const inputOptions: HtmlConversionOptions = { ...options }
+      if (input.kind === 'url') {
+        inputOptions.baseUrl ??= input.location
+      }
+      // Resolve the config for the hostname of each input.
+      const resolvedOptions = resolveConversionOptions(inputOptions)
+      const ast = convertHtmlToMarkdownAST(html, resolvedOptions)
+      const result = values.ast
+        ? `${JSON.stringify(ast, omitElements, 2)}\n`
+        : markdownASTToString(ast, resolvedOptions)
+      // Keep the refs of earlier inputs for later ones.
+      options.urlMap = resolvedOptions.urlMap
+
+      const file = outDir
+        ? path.join(outDir, getOutputPath(input, inputRoot, extension))
+        : output
+      if (file) {
+        await mkdir(path.dirname(file), { recursive: true })
+        await writeFile(file, result)
+      } else {
+        io.write(result)
+      }
+    } catch (error) {
+      failed = true
+      io.error(`d2m: ${input.name}: ${getErrorMessage(error)}\n`)
+    }
+  }
+
+  if (values['url-map'] && options.urlMap) {
+    await writeFile(
+      values['url-map'] as string,
+      `${JSON.stringify(options.urlMap, null, 2)}\n`,
+    )
+  }
+  return failed ? 1 : 0
+}
+
+function parseCliArgs(args: string[]) {
+  const config: NonNullable<Parameters<typeof parseArgs>[0]>['options'] = {
+    output: { type: 'string', short: 'o' },
+    'out-dir': { type: 'string', short: 'd' },
+    ast: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+    config: { type: 'string', short: 'c' },
+    'no-config': { type: 'boolean' },
+  }
+  for (const option of optionFlags) {
+    const flag = toKebabCase(option.name)
+    config[flag] = {
+      type:
+        option.type === 'boolean' || option.type === 'booleanOrJson'
+          ? 'boolean'
+          : 'string',
+    }
+    if (option.short) {
+      config[flag].short = option.short
+    }
+    if (option.type === 'booleanOrJson') {
+      config[`${flag}-options`] = { type: 'string' }
+    }
+  }
+  try {
+    return parseArgs({ args, options: config, allowPositionals: true })
+  } catch (error) {
+    throw new CliError(getErrorMessage(error), 2)
+  }
+}
+
+async function getConversionOptions(
+  values: Record<string, string | boolean | (string | boolean)[] | undefined>,
+) {
+  const options: Record<string, unknown> = {}
+  for (const option of optionFlags) {
+    const flag = toKebabCase(option.name)
+    const value = values[flag]
+    if (option.type === 'booleanOrJson') {
+      const json = values[`${flag}-options`]
+      if (typeof json === 'string') {
+        options[option.name] = parseJson(json, `--${flag}-options`)
+      } else if (value) {
+        options[option.name] = true
+      }
+      continue
+    }
+    if (value === undefined) {
+      continue
+    }
+    if (typeof value === 'boolean') {
+      options[option.name] = value
+      continue
+    }
+    const text = String(value)
+    switch (option.type) {
+      case 'number': {
+        const number = Number(text)
+        if (!text.trim() || Number.isNaN(number)) {
+          throw new CliError(`--${flag} must be a number`, 2)
+        }
+        options[option.name] = number
+        break
+      }
+      case 'list':
+        options[option.name] = text
+          .split(',')
+          .map(_ => _.trim())
+          .filter(Boolean)
+        break
+      case 'json':
+        options[option.name] = parseJson(text, `--${flag}`)
+        break
+      case 'stringOrJson':
+        options[option.name] = text.trimStart().startsWith('{')
+          ? parseJson(text, `--${flag}`)
+          : text
+        break
+      case 'file':
+        options[option.name] = await readJsonFile(
+          text,
+          option.name === 'urlMap',
+        )
+        break
+      default:
+        if (Array.isArray(option.type) && !option.type.includes(text)) {
+          throw new CliError(
+            `--${flag} must be one of: ${option.type.join(', ')}`,
+            2,
+          )
+        }
+        options[option.name] = text
+    }
+  }
+  for (const preset of (options.preset as string[] | undefined) ?? []) {
+    if (!Object.hasOwn(conversionPresets, preset)) {
+      throw new CliError(
+        `--preset must be one of: ${Object.keys(conversionPresets).join(', ')}`,
+        2,
+      )
+    }
+  }
+  const { JSDOM } = await import('jsdom').catch(() => {
+    throw new CliError(
+      'd2m needs jsdom, which is an optional peer dependency and not installed with it. Install it with "npm i jsdom"',
+    )
+  })
+  options.overrideDOMParser = new new JSDOM().window.DOMParser()
+  return options as HtmlConversionOptions
+}
+
+async function getConfig(values: Record<string, unknown>) {
+  if (values['no-config']) {
+    return
+  }
+  try {
+    return await loadConfig(values.config as string | undefined)
+  } catch (error) {
+    throw new CliError(getErrorMessage(error), 2)
+  }
+}
+
+/**
+ * Parse a JSON option. Strings like `"/sidebar|comments/i"` in lists of
+ * patterns become regular expressions.
+ */
+function parseJson(text: string, flag: string) {
+  try {
+    return parseConfigJson(text)
+  } catch (error) {
+    throw new CliError(
+      `${flag} is not valid JSON: ${getErrorMessage(error)}`,
+      2,
+    )
+  }
+}
+
+async function readJsonFile(file: string, optional: boolean) {
+  let text: string
+  try {
+    text = await readFile(file, 'utf8')
+  } catch (error) {
+    if (optional && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {}
+    }
+    throw new CliError(`cannot read ${file}: ${getErrorMessage(error)}`)
+  }
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    throw new CliError(`${file} is not valid JSON: ${getErrorMessage(error)}`)
+  }
+}
+
+async function resolveInputs(args: string[]) {
+  const inputs: Input[] = []
+  for (const arg of args) {
+    if (arg === '-') {
+      inputs.push({ name: 'stdin', kind: 'stdin', location: '-' })
+    } else if (/^https?:\/\//i.test(arg)) {
+      inputs.push({ name: arg, kind: 'url', location: arg })
+    } else if (/[*?]/.test(arg)) {
+      const files = await expandGlob(arg)
+      if (!files.length) {
+        throw new CliError(`no files match ${arg}`)
+      }
+      for (const file of files) {
+        inputs.push({ name: file, kind: 'file', location: file })
+      }
+    } else {
+      inputs.push({ name: arg, kind: 'file', location: arg })
+    }
+  }
+  return inputs
+}
+
+async function readInput(input: Input, io: CliIO) {
+  let html: string
+  if (input.kind === 'stdin') {
+    html = await io.readStdin()
+  } else if (input.kind === 'url') {
+    const response = await fetch(input.location)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`)
+    }
+    html = await response.text()
+  } else {
+    html = await readFile(input.location, 'utf8')
+  }
+  if (html.includes('\0')) {
+    throw new Error('not an HTML document (binary content)')
+  }
+  return html
+}
+
+/**
+ * Get the path of an output file relative to the output directory.
+ */
+function getOutputPath(input: Input, inputRoot: string, extension: string) {
+  let file: string
+  if (input.kind === 'stdin') {
+    file = 'stdin'
+  } else if (input.kind === 'url') {
+    const url = new URL(input.location)
+    const pathname = url.pathname.endsWith('/')
+      ? `${url.pathname}index`
+      : url.pathname
+    file = path.join(url.hostname, ...pathname.split('/').filter(Boolean))
+  } else {
+    file = path.relative(inputRoot, input.location)
+  }
+  return file.replace(/\.[^./\\]*$/, '') + extension
+}
+
+function getCommonDirectory(files: string[]) {
+  if (!files.length) {
+    return ''
+  }
+  const [first, ...rest] = files.map(file =>
+    path.dirname(path.resolve(file)).split(path.sep),
+  )
+  let length = first.length
+  for (const parts of rest) {
+    length = Math.min(length, parts.length)
+    while (parts.slice(0, length).join() !== first.slice(0, length).join()) {
+      length--
+    }
+  }
+  return first.slice(0, length).join(path.sep) || path.sep
+}
+
+/**
+ * Expand a glob pattern with `*`, `?` and `**`. Dot files and
+ * `node_modules` are skipped.
+ */
+async function expandGlob(pattern: string) {
+  const segments = pattern.split(/[\\/]/)
+  const baseSegments: string[] = []
+  while (segments.length > 1 && !/[*?]/.test(segments[0])) {
+    baseSegments.push(segments.shift()!)
+  }
+  const base = baseSegments.length ? baseSegments.join('/') || '/' : '.'
+  const regex = globToRegExp(segments.join('/'))
+  const files = await listFiles(base).catch(() => [])
+  return files
+    .filter(file => regex.test(file))
+    .map(file => path.join(base, file))
+    .sort()
+}
+
+function globToRegExp(glob: string) {
+  let source = ''
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index]
+    if (char === '*' && glob[index + 1] === '*') {
+      // A "**/" segment matches any number of directories.
+      if (glob[index + 2] === '/') {
+        source += '(?:.*/)?'
+        index += 2
+      } else {
+        source += '.*'
+        index += 1
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+  const files: string[] = []
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') {
+      continue
+    }
+    if (entry.isDirectory()) {
+      files.push(
+        ...(await listFiles(
+          path.join(dir, entry.name),
+          `${prefix}${entry.name}/`,
+        )),
+      )
+    } else if (entry.isFile()) {
+      files.push(prefix + entry.name)
+    }
+  }
+  return files
+}
+
+/**
+ * Leave DOM elements (from `enableSourceTracking`) out of the AST JSON.
+ */
+function omitElements(key: string, value: unknown) {
+  return key === 'element' ? undefined : value
+}
+
+function formatOptionHelp(option: OptionFlag) {
+  const flag = toKebabCase(option.name)
+  let syntax = `--${flag}`
+  if (Array.isArray(option.type)) {
+    syntax += ` <${option.type.join('|')}>`
+  } else if (option.type === 'booleanOrJson') {
+    syntax += `, --${flag}-options <json>`
+  } else if (option.type !== 'boolean') {
+    syntax += ` <${option.type === 'stringOrJson' ? 'mode|json' : option.type}>`
+  }
+  syntax = `  ${option.short ? `-${option.short}, ` : '    '}${syntax}`
+  // Descriptions go on the next line after long flags.
+  return syntax.length < 42
+    ? `${syntax.padEnd(42)} ${option.description}`
+    : `${syntax}\n${' '.repeat(43)}${option.description}`
+}
+
+function toKebabCase(name: string) {
+  return name.replace(/[A-Z]/g, char => `-${char.toLowerCase()}`)
+}
+
+function getErrorMessage(error: unknown) {
+  return (error as Error | undefined)?.message ?? String(error)
+}
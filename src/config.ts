@@ -0,0 +1,122 @@
+import { readFile, stat } from 'node:fs/promises'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { conversionPresets } from './core/presets'
+import type { ConversionConfig } from './types/markdownTypes'
+
+/**
+ * The names of the config files found by `loadConfig`, in order.
+ */
+export const configFileNames = ['d2m.config.js', 'd2m.config.json']
+
+/**
+ * Find the config file in a directory.
+ * @returns The path of the config file, or undefined if there is none.
+ */
+export async function findConfigFile(
+  dir: string = process.cwd(),
+): Promise<string | undefined> {
+  for (const name of configFileNames) {
+    const file = path.join(dir, name)
+    const stats = await stat(file).catch(() => null)
+    if (stats?.isFile()) {
+      return file
+    }
+  }
+}
+
+/**
+ * Load a config file. A `.json` file holds the config, where pattern strings
+ * like `"/sidebar|comments/i"` become regular expressions. A `.js` file
+ * exports the config as default.
+ * @param file The config file. Defaults to the one found in `dir`.
+ * @param dir The directory to find the config file in. Defaults to the
+ * current directory.
+ * @returns The config, or undefined if no file was given or found.
+ */
+export async function loadConfig(
+  file?: string,
+  dir?: string,
+): Promise<ConversionConfig | undefined> {
+  file ??= await findConfigFile(dir)
+  if (!file) {
+    return
+  }
+  file = path.resolve(dir ?? process.cwd(), file)
+
+  let config: unknown
+  if (/\.[cm]?js$/.test(file)) {
+    const module = await import(pathToFileURL(file).href)
+    config = module.default ?? module
+  } else {
+    const text = await readFile(file, 'utf8')
+    try {
+      config = parseConfigJson(text)
+    } catch (error) {
+      throw new Error(`${file} is not valid JSON: ${(error as Error).message}`)
+    }
+  }
+  validateConfig(config, file)
+  return config
+}
+
+/**
+ * The options holding lists of patterns, which can be regular expressions.
+ */
+const patternKeys = new Set([
+  'positivePatterns',
+  'negativePatterns',
+  'patterns',
+])
+
+/**
+ * Parse JSON options, where strings like `"/sidebar|comments/i"` in lists
+ * of patterns become regular expressions.
+ */
+export function parseConfigJson(text: string): unknown {
+  return JSON.parse(text, (key, value) =>
+    patternKeys.has(key) && Array.isArray(value)
+      ? value.map(parsePattern)
+      : value,
+  )
+}
+
+function parsePattern(pattern: unknown) {
+  const match =
+    typeof pattern === 'string' && /^\/(.+)\/([dgimsuy]*)$/.exec(pattern)
+  return match ? new RegExp(match[1], match[2]) : pattern
+}
+
+function validateConfig(
+  config: unknown,
+  file: string,
+): asserts config is ConversionConfig {
+  if (!isPlainObject(config)) {
+    throw new Error(`${file} must contain an object`)
+  }
+  const { hosts, ...options } = config as ConversionConfig
+  if (hosts !== undefined && !isPlainObject(hosts)) {
+    throw new Error(`${file}: "hosts" must be an object`)
+  }
+  for (const [key, value] of [
+    ['', options],
+    ...Object.entries(hosts ?? {}),
+  ] as const) {
+    const where = key ? `"hosts.${key}"` : 'the config'
+    if (!isPlainObject(value)) {
+      throw new Error(`${file}: ${where} must be an object`)
+    }
+    for (const preset of [value.preset ?? []].flat()) {
+      if (
+        typeof preset !== 'string' ||
+        !Object.hasOwn(conversionPresets, preset)
+      ) {
+        throw new Error(`${file}: unknown preset "${preset}" in ${where}`)
+      }
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
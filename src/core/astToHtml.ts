@@ -0,0 +1,588 @@
+import type {
+  HtmlRenderOptions,
+  Node,
+  SemanticMarkdownAST,
+} from '../types/markdownTypes'
+import { findInAST, isAttachedNode, isInlineNode } from './astUtils'
+import { unescapeMarkdownCharacters } from './domUtils'
+
+type Block = {
+  html: string
+  isParagraph: boolean
+}
+
+/**
+ * Renders a semantic Markdown AST as clean, sanitized HTML.
+ * @param nodes The AST to render, usually the output of `htmlToMarkdownAST`.
+ * @param options Rendering options.
+ * @returns The HTML string.
+ */
+export function astToHtml(
+  nodes: Node[],
+  options: HtmlRenderOptions = {},
+): string {
+  const body = renderFlow(nodes, options, false)
+  if (!options.fullDocument) {
+    return body
+  }
+  const meta = findInAST(nodes, _ => _.type === 'meta')
+  return (
+    '<!doctype html>\n<html>\n<head>\n<meta charset="utf-8">\n' +
+    (meta?.type === 'meta' ? renderHead(meta) : '') +
+    `</head>\n<body>\n${body}\n</body>\n</html>\n`
+  )
+}
+
+function renderHead(node: SemanticMarkdownAST.MetaDataNode): string {
+  let html = ''
+  const { standard, openGraph, twitter, jsonLd } = node.content
+  if (standard) {
+    Object.entries(standard).forEach(([key, value]) => {
+      html +=
+        key === 'title'
+          ? `<title>${escapeText(value)}</title>\n`
+          : `<meta name="${escapeAttribute(key)}" content="${escapeAttribute(value)}">\n`
+    })
+  }
+  if (openGraph) {
+    Object.entries(openGraph).forEach(([key, value]) => {
+      html += `<meta property="og:${escapeAttribute(key)}" content="${escapeAttribute(value)}">\n`
+    })
+  }
+  if (twitter) {
+    Object.entries(twitter).forEach(([key, value]) => {
+      html += `<meta name="twitter:${escapeAttribute(key)}" content="${escapeAttribute(value)}">\n`
+    })
+  }
+  if (jsonLd) {
+    jsonLd.forEach(data => {
+      // Prevent the JSON from closing the script element.
+      const json = JSON.stringify(data).replace(/<\//g, '<\\/')
+      html += `<script type="application/ld+json">${json}</script>\n`
+    })
+  }
+  return html
+}
+
+/**
+ * Render nodes that may contain a mix of block and inline content. Paragraphs
+ * and runs of inline content are wrapped in `<p>` tags, unless `tight` is
+ * true and there is only one of them.
+ */
+function renderFlow(
+  nodes: Node[],
+  options: HtmlRenderOptions,
+  tight: boolean,
+): string {
+  const blocks: Block[] = []
+  let inlineHtml = ''
+
+  const flushInline = () => {
+    const html = inlineHtml.trim()
+    if (html) {
+      blocks.push({ html, isParagraph: true })
+    }
+    inlineHtml = ''
+  }
+
+  nodes.forEach((node, index) => {
+    const nodeRenderingOverride = options.overrideNodeRenderer?.(node, options)
+    if (nodeRenderingOverride) {
+      if (isInlineNode(node)) {
+        inlineHtml += nodeRenderingOverride
+      } else {
+        flushInline()
+        blocks.push({ html: nodeRenderingOverride, isParagraph: false })
+      }
+      return
+    }
+    if (node.type === 'paragraph') {
+      flushInline()
+      const html = renderPhrasing(node.content, options)
+      if (html) {
+        blocks.push({ html, isParagraph: true })
+      }
+      return
+    }
+    if (node.type === 'thematicBreak') {
+      flushInline()
+      blocks.push({ html: '<hr>', isParagraph: false })
+      return
+    }
+    // Breaks in ASTs parsed from text may still be text nodes.
+    if (node.type === 'text') {
+      const text = node.content.trim()
+      if (text === '---' && node.content.endsWith('\n\n')) {
+        flushInline()
+        blocks.push({ html: '<hr>', isParagraph: false })
+        return
+      }
+      if (!text) {
+        if (/\n\s*\n/.test(node.content)) {
+          flushInline()
+        } else if (node.content.includes('\n')) {
+          inlineHtml += '<br>\n'
+        }
+        return
+      }
+    }
+    if (isInlineNode(node)) {
+      inlineHtml = appendInline(inlineHtml, node, options, nodes[index - 1])
+    } else {
+      const html = renderBlock(node, options)
+      if (html) {
+        flushInline()
+        blocks.push({ html, isParagraph: false })
+      }
+    }
+  })
+  flushInline()
+
+  const paragraphCount = blocks.filter(block => block.isParagraph).length
+  return blocks
+    .map(block =>
+      block.isParagraph && (!tight || paragraphCount > 1)
+        ? `<p>${block.html}</p>`
+        : block.html,
+    )
+    .join('\n')
+}
+
+/**
+ * Render inline content, where paragraph breaks become line breaks.
+ */
+function renderPhrasing(
+  content: string | Node[],
+  options: HtmlRenderOptions,
+): string {
+  if (typeof content === 'string') {
+    return escapeText(content)
+  }
+  let html = ''
+  content.forEach((node, index) => {
+    const nodeRenderingOverride = options.overrideNodeRenderer?.(node, options)
+    if (nodeRenderingOverride) {
+      html += nodeRenderingOverride
+    } else if (node.type === 'text' && !node.content.trim()) {
+      if (node.content.includes('\n')) {
+        html += '<br>\n'
+      }
+    } else if (node.type === 'paragraph') {
+      const paragraphHtml = renderPhrasing(node.content, options)
+      if (paragraphHtml) {
+        html += `${/\S$/.test(html) ? ' ' : ''}${paragraphHtml}<br>\n`
+      }
+    } else if (isInlineNode(node)) {
+      html = appendInline(html, node, options, content[index - 1])
+    } else {
+      html += renderBlock(node, options)
+    }
+  })
+  return html.trim()
+}
+
+/**
+ * Append an inline node, separating it from the preceding content with a
+ * space in the same cases as the Markdown renderer.
+ */
+function appendInline(
+  html: string,
+  node: Node,
+  options: HtmlRenderOptions,
+  previousNode?: Node,
+): string {
+  const nodeHtml = renderInline(node, options)
+  if (!nodeHtml) {
+    return html
+  }
+  const isLastCharWhitespace = /\s/.test(html.slice(-1))
+  let needsSpace = false
+  if (html.length > 0 && !isLastCharWhitespace) {
+    if (node.type === 'code') {
+      needsSpace = true
+    } else if (
+      node.type !== 'image' &&
+      node.type !== 'lineBreak' &&
+      node.type !== 'footnoteReference' &&
+      !isAttachedNode(node) &&
+      !isAttachedNode(previousNode)
+    ) {
+      const content = node.type === 'text' ? node.content : nodeHtml
+      needsSpace =
+        !/\s/.test(content.charAt(0)) &&
+        !(content.length === 1 && /^[.,!?;:]/.test(content))
+    }
+  }
+  return html + (needsSpace ? ' ' : '') + nodeHtml
+}
+
+function renderInline(node: Node, options: HtmlRenderOptions): string {
+  switch (node.type) {
+    case 'text':
+      return escapeText(node.content)
+    case 'lineBreak':
+      return '<br>\n'
+    case 'bold':
+      return `<strong>${renderPhrasing(node.content, options)}</strong>`
+    case 'italic':
+      return `<em>${renderPhrasing(node.content, options)}</em>`
+    case 'strikethrough':
+      return `<s>${renderPhrasing(node.content, options)}</s>`
+    case 'inlineSemantic': {
+      const title = node.title ? ` title="${escapeAttribute(node.title)}"` : ''
+      const annotation = node.annotation
+        ? `<rt>${escapeHtml(node.annotation)}</rt>`
+        : ''
+      return `<${node.htmlType}${title}>${renderPhrasing(node.content, options)}${annotation}</${node.htmlType}>`
+    }
+    case 'link': {
+      const href = sanitizeUrl(node.href)
+      const content = renderFlow(node.content, options, true)
+      return (
+        '<a' +
+        (href !== undefined ? ` href="${escapeAttribute(href)}"` : '') +
+        (node.elementId
+          ? ` data-element-id="${escapeAttribute(node.elementId)}"`
+          : '') +
+        `>${content}</a>`
+      )
+    }
+    case 'footnoteReference': {
+      const label = escapeAttribute(node.label)
+      return `<sup><a href="#fn-${label}" id="fnref-${label}" role="doc-noteref">${escapeHtml(node.label)}</a></sup>`
+    }
+    case 'formControl':
+      return renderFormControl(node)
+    case 'interactive':
+      return `<span data-element-id="${escapeAttribute(node.elementId)}">${renderPhrasing(node.content, options)}</span>`
+    case 'image': {
+      const src = sanitizeUrl(node.src, true)
+      const html =
+        '<img' +
+        (src !== undefined ? ` src="${escapeAttribute(src)}"` : '') +
+        ` alt="${escapeAttribute(unescapeMarkdownCharacters(node.alt ?? ''))}"` +
+        (node.title
+          ? ` title="${escapeAttribute(unescapeMarkdownCharacters(node.title))}"`
+          : '') +
+        (node.width ? ` width="${node.width}"` : '') +
+        (node.height ? ` height="${node.height}"` : '') +
+        '>'
+      if (!node.sources?.length) {
+        return html
+      }
+      return `<picture>${renderMediaSources(node.sources, 'srcset')}${html}</picture>`
+    }
+    case 'code':
+      return `<code>${escapeHtml(node.content)}</code>`
+    case 'math':
+      return `<span class="math inline">\\(${escapeHtml(node.content)}\\)</span>`
+    case 'semanticHtml':
+      return `<${node.htmlType}>${renderPhrasing(node.content, options)}</${node.htmlType}>`
+  }
+  return ''
+}
+
+function renderBlock(node: Node, options: HtmlRenderOptions): string {
+  switch (node.type) {
+    case 'heading':
+      return `<h${node.level}>${renderPhrasing(node.content, options)}</h${node.level}>`
+    case 'list': {
+      const tagName = node.ordered ? 'ol' : 'ul'
+      const attributes = node.ordered
+        ? (node.start !== undefined ? ` start="${node.start}"` : '') +
+          (node.reversed ? ' reversed' : '')
+        : ''
+      const items = node.items
+        .map(item => {
+          const html = renderFlow(item.content, options, true)
+          if (item.checked === undefined) {
+            return html
+          }
+          const checkbox = `<input type="checkbox" disabled${item.checked ? ' checked' : ''}>`
+          return html ? `${checkbox} ${html}` : checkbox
+        })
+        .filter(Boolean)
+        .map(html => `<li>${html}</li>`)
+      return `<${tagName}${attributes}>\n${items.join('\n')}\n</${tagName}>`
+    }
+    case 'definitionList': {
+      const items = node.items.map(item => {
+        const tagName = item.type === 'definitionTerm' ? 'dt' : 'dd'
+        return `<${tagName}>${renderFlow(item.content, options, true)}</${tagName}>`
+      })
+      return `<dl>\n${items.join('\n')}\n</dl>`
+    }
+    case 'table':
+      return renderTable(node, options)
+    case 'code': {
+      const className = node.language
+        ? ` class="language-${escapeAttribute(node.language)}"`
+        : ''
+      return `<pre><code${className}>${escapeHtml(node.content)}</code></pre>`
+    }
+    case 'math':
+      return `<div class="math display">\\[${escapeHtml(node.content)}\\]</div>`
+    case 'blockquote':
+      return `<blockquote>\n${renderFlow(node.content, options, false)}\n</blockquote>`
+    case 'semanticHtml': {
+      const tight =
+        node.htmlType === 'summary' || node.htmlType === 'figcaption'
+      const content = renderFlow(node.content, options, tight)
+      return tight
+        ? `<${node.htmlType}>${content}</${node.htmlType}>`
+        : `<${node.htmlType}>\n${content}\n</${node.htmlType}>`
+    }
+    case 'video': {
+      const src = sanitizeUrl(node.src)
+      if (node.provider) {
+        // The page of an embedded video can't be played by <video>.
+        return src !== undefined
+          ? `<p><a href="${escapeAttribute(src)}">${node.title ? escapeText(node.title) : escapeHtml(src)}</a></p>`
+          : ''
+      }
+      const poster = node.poster
+        ? sanitizeUrl(unescapeMarkdownCharacters(node.poster), true)
+        : undefined
+      return (
+        '<video' +
+        (src !== undefined ? ` src="${escapeAttribute(src)}"` : '') +
+        (poster !== undefined ? ` poster="${escapeAttribute(poster)}"` : '') +
+        (node.controls ? ' controls' : '') +
+        renderMediaAttributes(node) +
+        '>' +
+        renderMediaSources(node.sources, 'src') +
+        renderMediaTracks(node.tracks) +
+        '</video>'
+      )
+    }
+    case 'audio': {
+      const src = sanitizeUrl(node.src)
+      return (
+        '<audio' +
+        (src !== undefined ? ` src="${escapeAttribute(src)}"` : '') +
+        (node.controls ? ' controls' : '') +
+        renderMediaAttributes(node) +
+        '>' +
+        renderMediaSources(node.sources, 'src') +
+        renderMediaTracks(node.tracks) +
+        '</audio>'
+      )
+    }
+    case 'embed': {
+      const src = sanitizeUrl(node.src)
+      if (src === undefined) {
+        return ''
+      }
+      const attributes =
+        (node.htmlType === 'object' ? ' data' : ' src') +
+        `="${escapeAttribute(src)}"` +
+        (node.mimeType ? ` type="${escapeAttribute(node.mimeType)}"` : '') +
+        renderMediaAttributes(node)
+      return node.htmlType === 'embed'
+        ? `<embed${attributes}>`
+        : `<${node.htmlType}${attributes}></${node.htmlType}>`
+    }
+    case 'fieldset': {
+      const legend = node.legend
+        ? `<legend>${escapeText(node.legend)}</legend>\n`
+        : ''
+      return `<fieldset>\n${legend}${renderFlow(node.content, options, false)}\n</fieldset>`
+    }
+    case 'footnoteDefinition': {
+      const label = escapeAttribute(node.label)
+      return `<div id="fn-${label}" role="doc-footnote">\n<sup>${escapeHtml(node.label)}</sup> ${renderFlow(node.content, options, true)} <a href="#fnref-${label}" role="doc-backlink">↩</a>\n</div>`
+    }
+    case 'thematicBreak':
+      return '<hr>'
+    case 'custom':
+      return options.renderCustomNode?.(node, options) ?? ''
+    case 'meta':
+      // Rendered into the <head> by astToHtml
+      return ''
+  }
+  return ''
+}
+
+/**
+ * Render a form control, wrapped in a `<label>` if it has one.
+ */
+function renderFormControl(node: SemanticMarkdownAST.FormControlNode): string {
+  const attribute = (name: string, value: string | boolean | undefined) =>
+    value === true
+      ? ` ${name}`
+      : typeof value === 'string'
+        ? ` ${name}="${escapeAttribute(value)}"`
+        : ''
+  const attributes =
+    attribute('name', node.name) +
+    attribute('required', node.required) +
+    attribute('disabled', node.disabled) +
+    attribute('data-element-id', node.elementId)
+  const label = node.label ? escapeText(node.label) : ''
+
+  switch (node.kind) {
+    case 'button':
+    case 'submit':
+    case 'reset':
+      return `<button type="${node.kind}"${attributes}>${label}</button>`
+    case 'select': {
+      const options = (node.options ?? []).map(
+        option =>
+          `<option${attribute('value', option.value)}${attribute('selected', option.selected)}${attribute('disabled', option.disabled)}>${escapeText(option.label)}</option>`,
+      )
+      const html = `<select${attributes}${attribute('multiple', node.multiple)}>${options.join('')}</select>`
+      return label ? `<label>${label} ${html}</label>` : html
+    }
+    case 'textarea': {
+      const html = `<textarea${attributes}>${escapeText(node.value ?? '')}</textarea>`
+      return label ? `<label>${label} ${html}</label>` : html
+    }
+    case 'checkbox':
+    case 'radio': {
+      const html = `<input type="${node.kind}"${attributes}${attribute('checked', node.checked)}>`
+      return label ? `<label>${html} ${label}</label>` : html
+    }
+  }
+  const value =
+    node.value !== undefined
+      ? attribute('value', unescapeMarkdownCharacters(node.value))
+      : ''
+  const html = `<input type="${escapeAttribute(node.kind)}"${attributes}${value}>`
+  return label ? `<label>${label} ${html}</label>` : html
+}
+
+function renderTable(
+  node: SemanticMarkdownAST.TableNode,
+  options: HtmlRenderOptions,
+): string {
+  // The header separator row added by htmlToMarkdownAST marks the end of
+  // the header rows.
+  const separatorIndex = node.rows.findIndex(
+    row =>
+      row.cells.length > 0 && row.cells.every(cell => cell.content === '---'),
+  )
+
+  const renderRow = (
+    row: SemanticMarkdownAST.TableRowNode,
+    cellTagName: 'th' | 'td',
+  ) => {
+    const cells = row.cells.map(cell => {
+      const attributes =
+        (cell.colspan ? ` colspan="${cell.colspan}"` : '') +
+        (cell.rowspan ? ` rowspan="${cell.rowspan}"` : '')
+      const content =
+        typeof cell.content === 'string'
+          ? escapeText(cell.content)
+          : renderFlow(cell.content, options, true)
+      return `<${cellTagName}${attributes}>${content}</${cellTagName}>`
+    })
+    return `<tr>${cells.join('')}</tr>`
+  }
+
+  let html = '<table>\n'
+  if (separatorIndex > 0) {
+    const headerRows = node.rows.slice(0, separatorIndex)
+    html += `<thead>\n${headerRows.map(row => renderRow(row, 'th')).join('\n')}\n</thead>\n`
+  }
+  const bodyRows = node.rows.slice(separatorIndex + 1)
+  if (bodyRows.length) {
+    html += `<tbody>\n${bodyRows.map(row => renderRow(row, 'td')).join('\n')}\n</tbody>\n`
+  }
+  return html + '</table>'
+}
+
+/**
+ * Returns undefined for URLs that could execute script, as well as the `-`
+ * placeholder used for skipped data URLs.
+ */
+function sanitizeUrl(url: string, allowDataImage = false): string | undefined {
+  if (!url || url === '-') {
+    return undefined
+  }
+  // Browsers ignore control characters and whitespace in the scheme.
+  const normalizedUrl = Array.from(url)
+    .filter(char => char > ' ')
+    .join('')
+    .toLowerCase()
+  if (/^(javascript|vbscript):/.test(normalizedUrl)) {
+    return undefined
+  }
+  if (
+    normalizedUrl.startsWith('data:') &&
+    !(allowDataImage && normalizedUrl.startsWith('data:image/'))
+  ) {
+    return undefined
+  }
+  return url
+}
+
+function renderMediaAttributes(
+  node:
+    | SemanticMarkdownAST.VideoNode
+    | SemanticMarkdownAST.AudioNode
+    | SemanticMarkdownAST.EmbedNode,
+) {
+  let html = ''
+  if ('width' in node && node.width) {
+    html += ` width="${node.width}"`
+  }
+  if ('height' in node && node.height) {
+    html += ` height="${node.height}"`
+  }
+  if (node.title) {
+    html += ` title="${escapeAttribute(unescapeMarkdownCharacters(node.title))}"`
+  }
+  return html
+}
+
+function renderMediaSources(
+  sources: SemanticMarkdownAST.MediaSource[] | undefined,
+  urlAttribute: 'src' | 'srcset',
+) {
+  let html = ''
+  sources?.forEach(source => {
+    const src = sanitizeUrl(source.src, urlAttribute === 'srcset')
+    if (src === undefined) {
+      return
+    }
+    html +=
+      `<source ${urlAttribute}="${escapeAttribute(src)}"` +
+      (source.type ? ` type="${escapeAttribute(source.type)}"` : '') +
+      (source.media ? ` media="${escapeAttribute(source.media)}"` : '') +
+      '>'
+  })
+  return html
+}
+
+function renderMediaTracks(tracks: SemanticMarkdownAST.MediaTrack[] = []) {
+  let html = ''
+  tracks.forEach(track => {
+    const src = sanitizeUrl(track.src)
+    if (src === undefined) {
+      return
+    }
+    html +=
+      `<track kind="${escapeAttribute(track.kind)}" src="${escapeAttribute(src)}"` +
+      (track.srclang ? ` srclang="${escapeAttribute(track.srclang)}"` : '') +
+      (track.label
+        ? ` label="${escapeAttribute(unescapeMarkdownCharacters(track.label))}"`
+        : '') +
+      '>'
+  })
+  return html
+}
+
+/**
+ * Escape text from the AST, which has been escaped for Markdown.
+ */
+function escapeText(text: string) {
+  return escapeHtml(unescapeMarkdownCharacters(text))
+}
+
+function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(value: string) {
+  return escapeHtml(value).replace(/"/g, '&quot;')
+}
@@ -1,4 +1,10 @@
-import type { Node } from '../types/markdownTypes'
+import type {
+  Node,
+  SemanticMarkdownAST,
+  VisitCallback,
+  VisitPath,
+  Visitor,
+} from '../types/markdownTypes'
 
 export const getMainContent = (markdownStr: string) => {
   if (markdownStr.includes('<-main->')) {
@@ -17,79 +23,263 @@ export const isNot =
   (t: T | U): t is Exclude<U, T> =>
     !tPred(t)
 
-const isString = (x: any): x is string => typeof x === 'string'
+type AnyNode = SemanticMarkdownAST.AnyNode
 
-export function findInAST(
-  markdownElement: Node | Node[],
-  checker: (markdownElement: Node) => boolean,
-): Node | undefined {
-  const loopCheck = (z: Node[]): Node | undefined => {
-    for (const element of z) {
-      const found = findInAST(element, checker)
-      if (found) {
-        return found
+type VisitState = {
+  visitor: Visitor
+  stopped: boolean
+}
+
+/**
+ * Walks the AST depth-first, including list items, table rows and table
+ * cells. The callbacks can modify the tree through the given path.
+ * @param ast The node or nodes to visit. When a single node is given, it
+ * can't be replaced, removed or given siblings.
+ * @param visitor An `enter` callback, or an object with `enter` and `leave`
+ * callbacks.
+ */
+export function visit(
+  ast: AnyNode | AnyNode[],
+  visitor: Visitor | VisitCallback,
+): void {
+  const state: VisitState = {
+    visitor: typeof visitor === 'function' ? { enter: visitor } : visitor,
+    stopped: false,
+  }
+  if (Array.isArray(ast)) {
+    visitArray(ast, undefined, undefined, [], state)
+  } else {
+    visitNode([ast], 0, undefined, undefined, [], state, true)
+  }
+}
+
+/**
+ * Replaces nodes with the result of a callback, which is called after the
+ * children of a node have been transformed.
+ * @param ast The nodes to transform, which are modified in place.
+ * @param transformer Returns the replacement for a node: a node or an array
+ * of nodes to replace it, `null` to remove it, or `undefined` to keep it.
+ * @returns The transformed nodes.
+ */
+export function transform<T extends AnyNode[]>(
+  ast: T,
+  transformer: (
+    node: AnyNode,
+    path: VisitPath,
+  ) => AnyNode | AnyNode[] | null | undefined,
+): T {
+  visit(ast, {
+    leave(node, path) {
+      const result = transformer(node, path)
+      if (result === null) {
+        path.remove()
+      } else if (result !== undefined && result !== node) {
+        path.replace(...(Array.isArray(result) ? result : [result]))
       }
+    },
+  })
+  return ast
+}
+
+function visitArray(
+  nodes: AnyNode[],
+  parent: AnyNode | undefined,
+  key: VisitPath['key'],
+  ancestors: AnyNode[],
+  state: VisitState,
+) {
+  let index = 0
+  while (index < nodes.length && !state.stopped) {
+    index = visitNode(nodes, index, parent, key, ancestors, state)
+  }
+}
+
+/**
+ * Visit the node at the given index of its array.
+ * @returns The index of the next sibling to visit.
+ */
+function visitNode(
+  nodes: AnyNode[],
+  index: number,
+  parent: AnyNode | undefined,
+  key: VisitPath['key'],
+  ancestors: AnyNode[],
+  state: VisitState,
+  isRoot = false,
+): number {
+  const node = nodes[index]
+  // The number of nodes occupying the node's position, and the number of
+  // siblings inserted after them.
+  let size = 1
+  let insertedAfter = 0
+  let replaced = false
+  let skipped = false
+
+  const assertMutable = () => {
+    if (isRoot) {
+      throw new Error('Cannot modify the siblings of a root node')
+    }
+    if (replaced) {
+      throw new Error('Node was already replaced or removed')
     }
-    return undefined
   }
-  if (Array.isArray(markdownElement)) {
-    return loopCheck(markdownElement)
+
+  const path: VisitPath = {
+    node,
+    parent,
+    key,
+    get index() {
+      return index
+    },
+    ancestors,
+    replace(...newNodes) {
+      assertMutable()
+      nodes.splice(index, 1, ...newNodes)
+      size = newNodes.length
+      replaced = true
+    },
+    remove() {
+      path.replace()
+    },
+    insertBefore(...newNodes) {
+      assertMutable()
+      nodes.splice(index, 0, ...newNodes)
+      index += newNodes.length
+    },
+    insertAfter(...newNodes) {
+      assertMutable()
+      nodes.splice(index + 1, 0, ...newNodes)
+      insertedAfter += newNodes.length
+    },
+    skip() {
+      skipped = true
+    },
+    stop() {
+      state.stopped = true
+    },
   }
-  if (checker(markdownElement)) {
-    return markdownElement
+
+  state.visitor.enter?.(node, path)
+  if (!replaced && !skipped && !state.stopped) {
+    const children = getChildren(node)
+    if (children) {
+      visitArray(children[1], node, children[0], [...ancestors, node], state)
+    }
   }
-  switch (markdownElement.type) {
+  if (!replaced && !state.stopped) {
+    state.visitor.leave?.(node, path)
+  }
+  return index + size + insertedAfter
+}
+
+function getChildren(
+  node: AnyNode,
+): [key: VisitPath['key'], children: AnyNode[]] | undefined {
+  switch (node.type) {
+    case 'bold':
+    case 'italic':
+    case 'strikethrough':
+    case 'heading':
+    case 'tableCell':
+      return typeof node.content === 'string'
+        ? undefined
+        : ['content', node.content]
+    case 'paragraph':
+    case 'inlineSemantic':
+    case 'footnoteDefinition':
     case 'link':
-      return loopCheck(markdownElement.content)
-    case 'list':
-      return loopCheck(markdownElement.items.flatMap(_ => _.content))
-    case 'table':
-      return loopCheck(
-        markdownElement.rows.flatMap(row =>
-          row.cells.map(_ => _.content).filter(isNot(isString)),
-        ),
-      )
+    case 'interactive':
+    case 'fieldset':
+    case 'listItem':
+    case 'definitionTerm':
+    case 'definitionDescription':
     case 'blockquote':
     case 'semanticHtml':
-      return loopCheck(markdownElement.content)
+      return ['content', node.content]
+    case 'list':
+    case 'definitionList':
+      return ['items', node.items]
+    case 'table':
+      return ['rows', node.rows]
+    case 'tableRow':
+      return ['cells', node.cells]
   }
-
   return undefined
 }
 
+/**
+ * Whether a node is rendered inline, as part of the surrounding text.
+ */
+export function isInlineNode(node: Node): boolean {
+  return (
+    node.type === 'text' ||
+    node.type === 'lineBreak' ||
+    node.type === 'bold' ||
+    node.type === 'italic' ||
+    node.type === 'strikethrough' ||
+    node.type === 'inlineSemantic' ||
+    node.type === 'footnoteReference' ||
+    node.type === 'link' ||
+    node.type === 'interactive' ||
+    node.type === 'formControl' ||
+    node.type === 'image' ||
+    (node.type === 'code' && node.inline) ||
+    (node.type === 'math' && node.inline) ||
+    (node.type === 'semanticHtml' &&
+      (node.htmlType === 'mark' || node.htmlType === 'time'))
+  )
+}
+
+/**
+ * Whether a node is attached to the text around it, without a space, like
+ * superscripts and subscripts.
+ */
+export function isAttachedNode(node: Node | undefined): boolean {
+  return (
+    node?.type === 'inlineSemantic' &&
+    (node.htmlType === 'sup' || node.htmlType === 'sub')
+  )
+}
+
+/**
+ * List items, definition terms and descriptions, table rows and table cells
+ * are not passed to the predicates of `findInAST` and `findAllInAST`, but
+ * their contents are.
+ */
+function isContainedNode(node: AnyNode): node is Exclude<AnyNode, Node> {
+  return (
+    node.type === 'listItem' ||
+    node.type === 'definitionTerm' ||
+    node.type === 'definitionDescription' ||
+    node.type === 'tableRow' ||
+    node.type === 'tableCell'
+  )
+}
+
+export function findInAST(
+  markdownElement: Node | Node[],
+  checker: (markdownElement: Node) => boolean,
+): Node | undefined {
+  let found: Node | undefined
+  visit(markdownElement, (node, path) => {
+    if (!isContainedNode(node) && checker(node)) {
+      found = node
+      path.stop()
+    }
+  })
+  return found
+}
+
 export function findAllInAST(
   markdownElement: Node | Node[],
   checker: (markdownElement: Node) => boolean,
 ): Node[] {
-  const loopCheck = (z: Node[]): Node[] => {
-    let out: Node[] = []
-    for (const element of z) {
-      const found = findAllInAST(element, checker)
-      out = [...out, ...found]
+  const found: Node[] = []
+  visit(markdownElement, (node, path) => {
+    if (!isContainedNode(node) && checker(node)) {
+      found.push(node)
+      path.skip()
     }
-    return out
-  }
-  if (Array.isArray(markdownElement)) {
-    return loopCheck(markdownElement)
-  }
-  if (checker(markdownElement)) {
-    return [markdownElement]
-  }
-  switch (markdownElement.type) {
-    case 'link':
-      return loopCheck(markdownElement.content)
-    case 'list':
-      return loopCheck(markdownElement.items.flatMap(_ => _.content))
-    case 'table':
-      return loopCheck(
-        markdownElement.rows.flatMap(row =>
-          row.cells.map(_ => _.content).filter(isNot(isString)),
-        ),
-      )
-    case 'blockquote':
-    case 'semanticHtml':
-      return loopCheck(markdownElement.content)
-  }
-
-  return []
+  })
+  return found
 }
@@ -0,0 +1,196 @@
+import type {
+  BoilerplateMatch,
+  BoilerplateOptions,
+  ContentPattern,
+} from '../types/markdownTypes'
+import { matchesContentPattern } from './domUtils'
+
+/**
+ * Whole class names and IDs of boilerplate, so that names like
+ * `shareholder-letter` or `no-ads` don't match.
+ */
+const defaultPatterns: ContentPattern[] = [
+  /^(cookies?|consent|gdpr)([-_](banner|bar|notice|consent|popup|modal|dialog|wrapper|container))?$/i,
+  /^(newsletter|subscribe|signup)([-_](form|box|banner|popup|modal|signup|cta))?$/i,
+  /^(popup|modal|overlay|lightbox)([-_](wrapper|container|backdrop|overlay|content))?$/i,
+  /^(related|recommended|read-next|more-stories)([-_](posts|articles|stories|content|links))?$/i,
+  /^(share|sharing|social)([-_](bar|buttons|links|icons|media|tools|share|sharing))?$/i,
+  /^(ads?|advert|advertisement|sponsored|promo|ad-?slot|adsense)([-_](banner|box|container|slot|unit|wrapper))?$/i,
+  /^skip[-_](links?|to([-_][a-z]+)*)$/i,
+]
+
+/**
+ * WordPress adds the categories and tags of a post to its classes, like
+ * `category-social-media`, which are never boilerplate.
+ */
+const taxonomyClasses = /^(category|tag)-/
+
+/**
+ * Elements that are never boilerplate, since they hold the whole page.
+ */
+const pageTags = new Set(['HTML', 'HEAD', 'BODY', 'MAIN'])
+
+/**
+ * Tags of the blocks checked by the link density rule.
+ */
+const blockTags = new Set([
+  'ASIDE',
+  'DIV',
+  'FOOTER',
+  'HEADER',
+  'NAV',
+  'OL',
+  'SECTION',
+  'UL',
+])
+
+/**
+ * Find the boilerplate in an element, like cookie banners, modals, share
+ * bars, ads and skip links. Descendants of a match aren't reported.
+ */
+export function findBoilerplate(
+  root: Element,
+  options: BoilerplateOptions = {},
+): BoilerplateMatch[] {
+  const matches: BoilerplateMatch[] = []
+  const textLength = getTextLength(root)
+  const visit = (element: Element) => {
+    for (const child of Array.from(element.children)) {
+      const rule =
+        !pageTags.has(child.tagName) && matchRule(child, options, textLength)
+      if (rule) {
+        matches.push({ element: child, rule })
+      } else {
+        visit(child)
+      }
+    }
+  }
+  visit(root)
+  return matches
+}
+
+/**
+ * Remove the boilerplate found by `findBoilerplate` from the DOM.
+ * @returns The removed elements and the rules that matched them.
+ */
+export function removeBoilerplate(
+  root: Element,
+  options?: BoilerplateOptions,
+): BoilerplateMatch[] {
+  const matches = findBoilerplate(root, options)
+  for (const { element } of matches) {
+    element.remove()
+  }
+  return matches
+}
+
+/**
+ * @param textLength The text length of the root, to tell content apart.
+ */
+function matchRule(
+  element: Element,
+  options: BoilerplateOptions,
+  textLength: number,
+) {
+  if (
+    options.keep &&
+    (element.matches(options.keep) || element.querySelector(options.keep))
+  ) {
+    return
+  }
+  for (const rule of options.customRules ?? []) {
+    if (
+      typeof rule.match === 'string'
+        ? element.matches(rule.match)
+        : rule.match(element)
+    ) {
+      return rule.name
+    }
+  }
+  const rules = options.rules
+  const role = element.getAttribute('role')
+  if (
+    (!rules || rules.includes('dialog')) &&
+    (element.tagName === 'DIALOG' ||
+      role === 'dialog' ||
+      role === 'alertdialog')
+  ) {
+    return 'dialog'
+  }
+  if ((!rules || rules.includes('overlay')) && isFixed(element)) {
+    return 'overlay'
+  }
+  if (
+    (!rules || rules.includes('pattern')) &&
+    !isContent(element, textLength) &&
+    (options.patterns ?? defaultPatterns).some(pattern =>
+      matchesContentPattern(element, pattern, taxonomyClasses),
+    )
+  ) {
+    return 'pattern'
+  }
+  if ((!rules || rules.includes('skipLink')) && isSkipLink(element)) {
+    return 'skipLink'
+  }
+  if (
+    (!rules || rules.includes('linkDensity')) &&
+    blockTags.has(element.tagName) &&
+    element.getElementsByTagName('a').length >= (options.minLinks ?? 5) &&
+    getLinkDensity(element) > (options.maxLinkDensity ?? 0.5)
+  ) {
+    return 'linkDensity'
+  }
+}
+
+/**
+ * Whether an element has a fixed position, from its computed style when
+ * the document has a window, or else its inline style.
+ */
+function isFixed(element: Element) {
+  const view = element.ownerDocument.defaultView
+  const style = view
+    ? view.getComputedStyle(element)
+    : (element as HTMLElement).style
+  return style?.position === 'fixed'
+}
+
+/**
+ * Whether an element looks like content whatever its class names: an
+ * article, several paragraphs or most of the text.
+ */
+function isContent(element: Element, textLength: number) {
+  return (
+    element.tagName === 'ARTICLE' ||
+    element.getElementsByTagName('p').length >= 3 ||
+    getTextLength(element) > textLength / 2
+  )
+}
+
+/**
+ * The share of an element's text in links, ignoring whitespace.
+ */
+function getLinkDensity(element: Element) {
+  const textLength = getTextLength(element)
+  if (!textLength) {
+    return 0
+  }
+  const linkLength = Array.from(element.getElementsByTagName('a')).reduce(
+    (sum, link) => sum + getTextLength(link),
+    0,
+  )
+  return linkLength / textLength
+}
+
+function getTextLength(element: Element) {
+  return element.textContent?.replace(/\s+/g, '').length ?? 0
+}
+
+function isSkipLink(element: Element) {
+  return (
+    element.tagName === 'A' &&
+    element.getAttribute('href')?.startsWith('#') &&
+    /^(skip|jump) to\b|^skip (navigation|nav)\b/i.test(
+      element.textContent?.trim() ?? '',
+    )
+  )
+}
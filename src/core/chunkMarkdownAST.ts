@@ -0,0 +1,390 @@
+import type {
+  ChunkOptions,
+  MarkdownChunk,
+  Node,
+  SemanticMarkdownAST,
+} from '../types/markdownTypes'
+import { findInAST, isInlineNode } from './astUtils'
+import { markdownASTToString } from './markdownASTToString'
+
+/**
+ * A block of content that is only split when it can't fit in a chunk of its
+ * own.
+ */
+type Unit = {
+  nodes: Node[]
+  breadcrumbs: string[]
+  heading?: SemanticMarkdownAST.HeadingNode
+  /** The tokens of the rendered nodes, measured once. */
+  tokens?: number
+}
+
+type FitsPredicate = (nodes: Node[]) => boolean
+
+/**
+ * Estimates the number of tokens in a string, assuming 4 characters per
+ * token.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Splits a Markdown AST into chunks that fit in a token budget. Tables, code
+ * blocks, lists and paragraphs are kept whole unless they don't fit in a
+ * chunk of their own, and headings stay with the content that follows them.
+ * @param nodes The AST to split, usually the output of `htmlToMarkdownAST`.
+ * @param options Chunking and rendering options.
+ * @returns The chunks, in document order.
+ */
+export function chunkMarkdownAST(
+  nodes: Node[],
+  options: ChunkOptions = {},
+): MarkdownChunk[] {
+  const maxTokens = options.maxTokens ?? 512
+  const tokenizer = options.tokenizer ?? estimateTokens
+  const splitHeadingLevel = options.splitHeadingLevel ?? 2
+  const renderOptions: ChunkOptions = {
+    ...options,
+    emitFrontMatter: false,
+    sourceMap: undefined,
+  }
+
+  const meta = findInAST(nodes, _ => _.type === 'meta')
+  const title =
+    options.includeTitle !== false && meta?.type === 'meta'
+      ? (meta.content.standard?.title ?? meta.content.openGraph?.title)
+      : undefined
+
+  const getTrail = (breadcrumbs: string[]) => {
+    const trail = [
+      title,
+      ...(options.includeBreadcrumbs !== false ? breadcrumbs : []),
+    ].filter(Boolean)
+    return trail.length ? `${trail.join(' > ')}\n\n` : ''
+  }
+
+  const createChunk = (units: Unit[]): MarkdownChunk => {
+    const { breadcrumbs } = units[0]
+    const chunkNodes = units.flatMap(unit => unit.nodes)
+    const markdown =
+      getTrail(breadcrumbs) +
+      markdownASTToString(chunkNodes, renderOptions).trim()
+    return {
+      markdown,
+      tokens: tokenizer(markdown),
+      breadcrumbs,
+      nodes: chunkNodes,
+    }
+  }
+
+  const measure = (unit: Unit) =>
+    (unit.tokens ??= tokenizer(markdownASTToString(unit.nodes, renderOptions)))
+
+  const chunks: MarkdownChunk[] = []
+  let current: Unit[] = []
+  // The tokens of the units in the current chunk, without its trail.
+  let currentTokens = 0
+
+  // Only the new unit is measured, so chunking takes linear time.
+  const fits = (unit: Unit) =>
+    tokenizer(getTrail((current[0] ?? unit).breadcrumbs)) +
+      currentTokens +
+      measure(unit) <=
+    maxTokens
+
+  const closeChunk = () => {
+    // Keep trailing headings with the content that follows them.
+    let end = current.length
+    while (end > 0 && current[end - 1].heading) {
+      end--
+    }
+    if (end > 0) {
+      chunks.push(createChunk(current.slice(0, end)))
+      current = current.slice(end)
+      currentTokens = current.reduce((sum, unit) => sum + measure(unit), 0)
+    }
+  }
+
+  const queue = collectUnits(nodes, renderOptions)
+  while (queue.length) {
+    const unit = queue.shift()!
+    if (unit.heading && unit.heading.level <= splitHeadingLevel) {
+      closeChunk()
+    }
+    if (fits(unit)) {
+      current.push(unit)
+      currentTokens += measure(unit)
+    } else if (current.some(_ => !_.heading)) {
+      closeChunk()
+      queue.unshift(unit)
+    } else {
+      // Pieces are measured with the breadcrumbs they're rendered with.
+      const pieces = splitUnit(
+        unit,
+        pieceNodes =>
+          fits({ nodes: pieceNodes, breadcrumbs: unit.breadcrumbs }),
+        renderOptions,
+      )
+      if (pieces) {
+        queue.unshift(...pieces)
+      } else {
+        // Nothing left to split, so the chunk exceeds the budget.
+        current.push(unit)
+        currentTokens += measure(unit)
+      }
+    }
+  }
+  if (current.length) {
+    chunks.push(createChunk(current))
+  }
+  return chunks
+}
+
+/**
+ * Flatten the AST into units, removing semantic regions and tracking the
+ * headings each unit belongs to.
+ */
+function collectUnits(nodes: Node[], options: ChunkOptions): Unit[] {
+  const units: Unit[] = []
+  const headings: { level: number; text: string }[] = []
+  let inlineRun: Node[] = []
+
+  const flushInlineRun = () => {
+    if (inlineRun.length) {
+      units.push({ nodes: inlineRun, breadcrumbs: headings.map(_ => _.text) })
+      inlineRun = []
+    }
+  }
+
+  const collect = (nodes: Node[]) => {
+    for (const node of nodes) {
+      if (node.type === 'meta') {
+        continue
+      }
+      if (isInlineNode(node)) {
+        inlineRun.push(node)
+        continue
+      }
+      flushInlineRun()
+      if (node.type === 'semanticHtml') {
+        collect(node.content)
+        flushInlineRun()
+      } else if (node.type === 'heading') {
+        while (headings.length && headings.at(-1)!.level >= node.level) {
+          headings.pop()
+        }
+        units.push({
+          nodes: [node],
+          breadcrumbs: headings.map(_ => _.text),
+          heading: node,
+        })
+        headings.push({
+          level: node.level,
+          text:
+            typeof node.content === 'string'
+              ? node.content
+              : markdownASTToString(node.content, options).trim(),
+        })
+      } else {
+        units.push({ nodes: [node], breadcrumbs: headings.map(_ => _.text) })
+      }
+    }
+  }
+
+  collect(nodes)
+  flushInlineRun()
+  return units
+}
+
+/**
+ * Split a unit that doesn't fit in a chunk of its own. Returns undefined if
+ * it can't be split any further.
+ */
+function splitUnit(
+  unit: Unit,
+  fits: FitsPredicate,
+  options: ChunkOptions,
+): Unit[] | undefined {
+  const pieces =
+    unit.nodes.length > 1
+      ? unit.nodes.map(node => [node])
+      : (
+          splitNode(unit.nodes[0], fits, options) ??
+          splitText(unit.nodes, fits, options)
+        )?.map(node => [node])
+
+  return pieces?.map(nodes => ({ nodes, breadcrumbs: unit.breadcrumbs }))
+}
+
+/**
+ * Split a node along its structure, like between list items or table rows.
+ */
+function splitNode(
+  node: Node,
+  fits: FitsPredicate,
+  options: ChunkOptions,
+): Node[] | undefined {
+  switch (node.type) {
+    case 'list': {
+      if (node.items.length > 1) {
+        // Pieces of ordered lists continue the numbering.
+        const start = node.start ?? (node.reversed ? node.items.length : 1)
+        return packNodes(
+          node.items,
+          items => {
+            const offset = node.items.indexOf(items[0])
+            if (!node.ordered || (offset === 0 && !node.reversed)) {
+              return { ...node, items }
+            }
+            return {
+              ...node,
+              items,
+              start: node.reversed ? start - offset : start + offset,
+            }
+          },
+          fits,
+        )
+      }
+      const [item] = node.items
+      const pieces = splitContent(
+        item.content,
+        content => ({ ...node, items: [{ ...item, content }] }),
+        fits,
+        options,
+      )
+      // Later pieces continue the item, so its marker isn't repeated.
+      return pieces?.map((piece, i) =>
+        i > 0 && piece.type === 'list'
+          ? { ...piece, items: [{ ...piece.items[0], continued: true }] }
+          : piece,
+      )
+    }
+    case 'definitionList': {
+      // Keep each group of terms with its descriptions.
+      const groups: (typeof node.items)[] = []
+      node.items.forEach((item, i) => {
+        if (
+          !groups.length ||
+          (item.type === 'definitionTerm' &&
+            node.items[i - 1].type === 'definitionDescription')
+        ) {
+          groups.push([])
+        }
+        groups.at(-1)!.push(item)
+      })
+      if (groups.length > 1) {
+        return packNodes(
+          groups,
+          groups => ({ ...node, items: groups.flat() }),
+          fits,
+        )
+      }
+      return
+    }
+    case 'table': {
+      // Repeat the header rows in every piece.
+      const separatorIndex = node.rows.findIndex(
+        row =>
+          row.cells.length > 0 &&
+          row.cells.every(cell => cell.content === '---'),
+      )
+      const headerRows = node.rows.slice(0, separatorIndex + 1)
+      const bodyRows = node.rows.slice(separatorIndex + 1)
+      if (bodyRows.length > 1) {
+        return packNodes(
+          bodyRows,
+          rows => ({ ...node, rows: [...headerRows, ...rows] }),
+          fits,
+        )
+      }
+      return
+    }
+    case 'code': {
+      const lines = node.content.split('\n')
+      if (!node.inline && lines.length > 1) {
+        return packNodes(
+          lines,
+          lines => ({ ...node, content: lines.join('\n') }),
+          fits,
+        )
+      }
+      return
+    }
+    case 'paragraph':
+    case 'blockquote':
+      return splitContent(
+        node.content,
+        content => ({ ...node, content }),
+        fits,
+        options,
+      )
+  }
+  return
+}
+
+function splitContent(
+  content: Node[],
+  wrap: (content: Node[]) => Node,
+  fits: FitsPredicate,
+  options: ChunkOptions,
+): Node[] | undefined {
+  const wrappedFits: FitsPredicate = nodes => fits([wrap(nodes)])
+  if (content.length > 1) {
+    return packNodes(content, wrap, fits)
+  }
+  if (content.length === 1) {
+    const pieces =
+      splitNode(content[0], wrappedFits, options) ??
+      splitText(content, wrappedFits, options)
+    return pieces?.map(piece => wrap([piece]))
+  }
+  return
+}
+
+/**
+ * Split the rendered nodes into text nodes, between words if possible.
+ */
+function splitText(
+  nodes: Node[],
+  fits: FitsPredicate,
+  options: ChunkOptions,
+): Node[] | undefined {
+  const text = markdownASTToString(nodes, options).trim()
+  let parts: string[] = text.match(/\S+\s*/g) ?? []
+  if (parts.length < 2) {
+    parts = Array.from(text)
+  }
+  if (parts.length < 2) {
+    return
+  }
+  return packNodes(
+    parts,
+    parts => ({ type: 'text', content: parts.join('').trim() }),
+    fits,
+  )
+}
+
+/**
+ * Group items into as few nodes as possible, without exceeding the budget
+ * unless a single item does.
+ */
+function packNodes<T>(
+  items: T[],
+  build: (items: T[]) => Node,
+  fits: FitsPredicate,
+): Node[] | undefined {
+  const pieces: Node[] = []
+  let group: T[] = []
+  for (const item of items) {
+    if (group.length && !fits([build([...group, item])])) {
+      pieces.push(build(group))
+      group = []
+    }
+    group.push(item)
+  }
+  if (group.length) {
+    pieces.push(build(group))
+  }
+  return pieces.length > 1 ? pieces : undefined
+}
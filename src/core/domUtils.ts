@@ -1,3 +1,11 @@
+import type {
+  ContentCandidate,
+  ContentPattern,
+  ContentScoreFactor,
+  ContentScoringOptions,
+  ContentScoringWeights,
+  MainContentReport,
+} from '../types/markdownTypes'
 import { _Node } from './ElementNode'
 
 const enableDebug = false
@@ -10,23 +18,42 @@ const debugMessage = (message: string) => {
 /**
  * Attempts to find the main content of a web page.
  * @param document The Document object to search.
+ * @param scoring Options for scoring the candidates.
  * @returns The Element containing the main content, or the body if no main content is found.
  */
-export function findMainContent(document: Document): Element {
-  debugMessage('Entering findMainContent function')
+export function findMainContent(
+  document: Document,
+  scoring?: ContentScoringOptions,
+): Element {
+  return scoreMainContent(document, scoring).element
+}
+
+/**
+ * Like `findMainContent`, but returns a report of how the main content was
+ * found, with the score breakdown of every candidate.
+ */
+export function scoreMainContent(
+  document: Document,
+  scoring?: ContentScoringOptions,
+): MainContentReport {
+  debugMessage('Entering scoreMainContent function')
 
   const mainElement = document.querySelector('main')
   if (mainElement) {
     debugMessage('Existing <main> element found')
-    return mainElement
+    return { element: mainElement, method: 'main', candidates: [] }
   }
 
   debugMessage('No <main> element found. Detecting main content.')
   if (!document.body) {
     debugMessage('No body element found, returning document.documentElement')
-    return document.documentElement
+    return {
+      element: document.documentElement,
+      method: 'fallback',
+      candidates: [],
+    }
   }
-  return detectMainContent(document.body)
+  return detectMainContent(document.body, scoring)
 }
 
 export function wrapMainContent(
@@ -45,20 +72,104 @@ export function wrapMainContent(
   }
 }
 
-function detectMainContent(rootElement: Element): Element {
-  const candidates: Element[] = []
-  const minScore = 20
+/**
+ * Ranks the independent content candidates of a page, from best to worst.
+ * Candidates that contain, or are contained by, a better candidate are
+ * left out, so each candidate is a separate region of the page.
+ */
+export function rankContentCandidates(
+  document: Document,
+  scoring: ContentScoringOptions = {},
+): ContentCandidate[] {
+  const candidates: ContentCandidate[] = []
+  const rootElement = document.body ?? document.documentElement
+  collectCandidates(rootElement, candidates, scoring.minScore ?? 20, scoring)
+  candidates.sort((a, b) => b.score - a.score)
+
+  const ranked: ContentCandidate[] = []
+  for (const candidate of candidates) {
+    if (
+      !ranked.some(
+        other =>
+          other.element.contains(candidate.element) ||
+          candidate.element.contains(other.element),
+      )
+    ) {
+      candidate.selected = ranked.length === 0
+      ranked.push(candidate)
+    }
+  }
+  return ranked
+}
+
+/**
+ * Moves the given content regions into a new `<main>` element, in document
+ * order, wrapping each in a `<section>` unless it's already an `<article>`,
+ * `<aside>` or `<section>`.
+ */
+export function mergeContentRegions(
+  elements: Element[],
+  document: Document,
+): Element {
+  const mainElement = document.createElement('main')
+  mainElement.id = 'detected-main-content'
+  const regions = [...elements].sort((a, b) =>
+    a.compareDocumentPosition(b) & _Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1,
+  )
+  for (const element of regions) {
+    if (['ARTICLE', 'ASIDE', 'SECTION'].includes(element.tagName)) {
+      mainElement.appendChild(element)
+    } else {
+      const section = document.createElement('section')
+      section.appendChild(element)
+      mainElement.appendChild(section)
+    }
+  }
+  ;(document.body ?? document.documentElement).prepend(mainElement)
+  return mainElement
+}
+
+const defaultPositivePatterns: ContentPattern[] = [
+  'article',
+  'content',
+  'main-container',
+  'main',
+  'main-content',
+]
+
+const defaultTagBonuses: Record<string, number> = {
+  article: 5,
+  main: 5,
+  section: 5,
+}
+
+const defaultWeights: ContentScoringWeights = {
+  positivePattern: 10,
+  negativePattern: 10,
+  paragraphs: 5,
+  textLength: 5,
+  linkDensity: 5,
+  dataAttribute: 10,
+  role: 10,
+}
+
+function detectMainContent(
+  rootElement: Element,
+  scoring: ContentScoringOptions = {},
+): MainContentReport {
+  const candidates: ContentCandidate[] = []
+  const minScore = scoring.minScore ?? 20
   debugMessage(`Collecting candidates with minimum score: ${minScore}`)
-  collectCandidates(rootElement, candidates, minScore)
+  collectCandidates(rootElement, candidates, minScore, scoring)
 
   debugMessage(`Total candidates found: ${candidates.length}`)
 
   if (candidates.length === 0) {
     debugMessage('No suitable candidates found, returning root element')
-    return rootElement
+    return { element: rootElement, method: 'fallback', candidates }
   }
 
-  candidates.sort((a, b) => calculateScore(b) - calculateScore(a))
+  candidates.sort((a, b) => b.score - a.score)
   debugMessage('Candidates sorted by score')
 
   let bestIndependentCandidate = candidates[0]
@@ -66,24 +177,27 @@ function detectMainContent(rootElement: Element): Element {
     if (
       !candidates.some(
         (otherCandidate, j) =>
-          j !== i && otherCandidate.contains(candidates[i]),
+          j !== i && otherCandidate.element.contains(candidates[i].element),
       )
     ) {
-      if (
-        calculateScore(candidates[i]) > calculateScore(bestIndependentCandidate)
-      ) {
+      if (candidates[i].score > bestIndependentCandidate.score) {
         bestIndependentCandidate = candidates[i]
         debugMessage(
-          `New best independent candidate found: ${elementToString(bestIndependentCandidate)}`,
+          `New best independent candidate found: ${elementToString(bestIndependentCandidate.element)}`,
         )
       }
     }
   }
 
+  bestIndependentCandidate.selected = true
   debugMessage(
-    `Final main content candidate: ${elementToString(bestIndependentCandidate)}`,
+    `Final main content candidate: ${elementToString(bestIndependentCandidate.element)}`,
   )
-  return bestIndependentCandidate
+  return {
+    element: bestIndependentCandidate.element,
+    method: 'candidate',
+    candidates,
+  }
 }
 
 function elementToString(element: Element | null | undefined): string {
@@ -95,107 +209,139 @@ function elementToString(element: Element | null | undefined): string {
 
 function collectCandidates(
   element: Element,
-  candidates: Element[],
+  candidates: ContentCandidate[],
   minScore: number,
+  scoring: ContentScoringOptions,
 ) {
-  const score = calculateScore(element)
+  const factors = calculateScore(element, scoring)
+  const score = factors.reduce((sum, factor) => sum + factor.score, 0)
   if (score >= minScore) {
-    candidates.push(element)
+    candidates.push({ element, score, factors, selected: false })
     debugMessage(
       `Candidate found: ${elementToString(element)}, score: ${score}`,
     )
   }
 
   Array.from(element.children).forEach(child => {
-    collectCandidates(child, candidates, minScore)
+    collectCandidates(child, candidates, minScore, scoring)
   })
 }
 
-function calculateScore(element: Element): number {
-  let score = 0
-  const scoreLog: string[] = []
-
-  // High impact attributes
-  const highImpactAttributes = [
-    'article',
-    'content',
-    'main-container',
-    'main',
-    'main-content',
-  ]
-  highImpactAttributes.forEach(attr => {
-    if (element.classList.contains(attr) || element.id.includes(attr)) {
-      score += 10
-      scoreLog.push(
-        `High impact attribute found: ${attr}, score increased by 10`,
-      )
+function calculateScore(
+  element: Element,
+  scoring: ContentScoringOptions,
+): ContentScoreFactor[] {
+  const weights = { ...defaultWeights, ...scoring.weights }
+  const factors: ContentScoreFactor[] = []
+
+  // Class names and IDs
+  for (const pattern of scoring.positivePatterns ?? defaultPositivePatterns) {
+    if (matchesContentPattern(element, pattern)) {
+      factors.push({
+        factor: 'positivePattern',
+        score: weights.positivePattern,
+        detail: `class/id ${pattern}`,
+      })
     }
-  })
+  }
+  for (const pattern of scoring.negativePatterns ?? []) {
+    if (matchesContentPattern(element, pattern)) {
+      factors.push({
+        factor: 'negativePattern',
+        score: -weights.negativePattern,
+        detail: `class/id ${pattern}`,
+      })
+    }
+  }
 
-  // High impact tags
-  const highImpactTags = ['article', 'main', 'section']
-  if (highImpactTags.includes(element.tagName.toLowerCase())) {
-    score += 5
-    scoreLog.push(
-      `High impact tag found: ${element.tagName}, score increased by 5`,
-    )
+  // Tags
+  const tagName = element.tagName.toLowerCase()
+  const tagBonus = (scoring.tagBonuses ?? defaultTagBonuses)[tagName]
+  if (tagBonus) {
+    factors.push({ factor: 'tag', score: tagBonus, detail: `<${tagName}>` })
   }
 
   // Paragraph count
   const paragraphCount = element.getElementsByTagName('p').length
-  const paragraphScore = Math.min(paragraphCount, 5)
+  const paragraphScore = Math.min(paragraphCount, weights.paragraphs)
   if (paragraphScore > 0) {
-    score += paragraphScore
-    scoreLog.push(
-      `Paragraph count: ${paragraphCount}, score increased by ${paragraphScore}`,
-    )
+    factors.push({
+      factor: 'paragraphs',
+      score: paragraphScore,
+      detail: `${paragraphCount} paragraphs`,
+    })
   }
 
   // Text content length
+  const textLengthUnit = scoring.textLengthUnit ?? 200
   const textContentLength = element.textContent?.trim().length || 0
-  if (textContentLength > 200) {
-    const textScore = Math.min(Math.floor(textContentLength / 200), 5)
-    score += textScore
-    scoreLog.push(
-      `Text content length: ${textContentLength}, score increased by ${textScore}`,
+  if (textContentLength > textLengthUnit) {
+    const textScore = Math.min(
+      Math.floor(textContentLength / textLengthUnit),
+      weights.textLength,
     )
+    factors.push({
+      factor: 'textLength',
+      score: textScore,
+      detail: `${textContentLength} characters`,
+    })
   }
 
   // Link density
   const linkDensity = calculateLinkDensity(element)
-  if (linkDensity < 0.3) {
-    score += 5
-    scoreLog.push(
-      `Link density: ${linkDensity.toFixed(2)}, score increased by 5`,
-    )
+  if (linkDensity < (scoring.maxLinkDensity ?? 0.3)) {
+    factors.push({
+      factor: 'linkDensity',
+      score: weights.linkDensity,
+      detail: `link density ${linkDensity.toFixed(2)}`,
+    })
   }
 
   // Data attributes
-  if (
-    element.hasAttribute('data-main') ||
-    element.hasAttribute('data-content')
-  ) {
-    score += 10
-    scoreLog.push(
-      'Data attribute for main content found, score increased by 10',
-    )
+  for (const attribute of ['data-main', 'data-content']) {
+    if (element.hasAttribute(attribute)) {
+      factors.push({
+        factor: 'dataAttribute',
+        score: weights.dataAttribute,
+        detail: attribute,
+      })
+      break
+    }
   }
 
   // Role attribute
-  if (element.getAttribute('role')?.includes('main')) {
-    score += 10
-    scoreLog.push(
-      'Role attribute indicating main content found, score increased by 10',
-    )
+  const role = element.getAttribute('role')
+  if (role?.includes('main')) {
+    factors.push({
+      factor: 'role',
+      score: weights.role,
+      detail: `role=${role}`,
+    })
   }
 
-  if (scoreLog.length > 0) {
-    debugMessage(`Scoring for ${elementToString(element)}:`)
-    scoreLog.forEach(log => debugMessage('  ' + log))
-    debugMessage(`  Final score: ${score}`)
-  }
+  return factors.filter(factor => factor.score !== 0)
+}
 
-  return score
+/**
+ * Whether an element's class or ID matches a pattern. Strings match a class
+ * name exactly or any part of the ID.
+ * @param ignoredClasses Class names that are never matched.
+ */
+export function matchesContentPattern(
+  element: Element,
+  pattern: ContentPattern,
+  ignoredClasses?: RegExp,
+) {
+  const classNames = Array.from(element.classList).filter(
+    name => !ignoredClasses?.test(name),
+  )
+  if (typeof pattern === 'string') {
+    return classNames.includes(pattern) || element.id.includes(pattern)
+  }
+  return (
+    classNames.some(name => pattern.test(name)) ||
+    (!!element.id && pattern.test(element.id))
+  )
 }
 
 function calculateLinkDensity(element: Element): number {
@@ -207,6 +353,18 @@ function calculateLinkDensity(element: Element): number {
   return linkLength / textLength
 }
 
+/**
+ * Whether an element is an `<input>`, `<select>`, `<textarea>` or `<button>`.
+ */
+export function isFormControl(element: Element) {
+  return (
+    element.tagName === 'INPUT' ||
+    element.tagName === 'SELECT' ||
+    element.tagName === 'TEXTAREA' ||
+    element.tagName === 'BUTTON'
+  )
+}
+
 export function isElementVisible(element: Element): boolean {
   if (!(element instanceof HTMLElement)) {
     return true // Non-HTMLElements are considered visible
@@ -253,3 +411,76 @@ export function escapeMarkdownCharacters(text: string, isInlineCode = false) {
   escapedText = escapedText.replace(/([\\`*_{}[\]#+!|])/g, '\\$1')
   return escapedText
 }
+
+/**
+ * Reverses `escapeMarkdownCharacters`, returning the original text.
+ */
+export function unescapeMarkdownCharacters(text: string) {
+  if (!text) {
+    return text
+  }
+  return text
+    .replace(/\\([\\`*_{}[\]#+!|])/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&') // Replace & last
+}
+
+/**
+ * Builds a CSS selector that uniquely matches the element, preferring the
+ * nearest ancestor with a unique ID as the starting point.
+ */
+export function getElementSelector(element: Element): string {
+  const root = element.getRootNode() as Document | ShadowRoot
+  const parts: string[] = []
+  let current: Element | null = element
+  while (current) {
+    const id = current.getAttribute('id')
+    if (
+      id &&
+      /^[A-Za-z][\w-]*$/.test(id) &&
+      root.querySelectorAll?.(`#${id}`).length === 1
+    ) {
+      parts.unshift(`#${id}`)
+      break
+    }
+    const tagName = current.tagName.toLowerCase()
+    const parent: Element | null = current.parentElement
+    if (!parent) {
+      parts.unshift(tagName)
+      break
+    }
+    parts.unshift(`${tagName}:nth-of-type(${getTypeIndex(current)})`)
+    current = parent
+  }
+  return parts.join(' > ')
+}
+
+/**
+ * Builds an absolute XPath expression that matches the element.
+ */
+export function getElementXPath(element: Element): string {
+  let path = ''
+  let current: Element | null = element
+  while (current) {
+    const name =
+      current.namespaceURI === 'http://www.w3.org/1999/xhtml'
+        ? current.localName
+        : `*[local-name()="${current.localName}"]`
+    path = `/${name}[${getTypeIndex(current)}]${path}`
+    current = current.parentElement
+  }
+  return path
+}
+
+function getTypeIndex(element: Element) {
+  let index = 1
+  let sibling = element.previousElementSibling
+  while (sibling) {
+    if (sibling.tagName === element.tagName) {
+      index++
+    }
+    sibling = sibling.previousElementSibling
+  }
+  return index
+}
@@ -1,7 +1,20 @@
-import type { SemanticMarkdownAST } from '../types/markdownTypes'
+import type {
+  ExtractOptions,
+  SemanticMarkdownAST,
+} from '../types/markdownTypes'
 import { escapeMarkdownCharacters } from './domUtils'
+import { resolveUrl } from './urlUtils'
 
-export function extractMetaData(elem: Element, mode?: 'basic' | 'extended') {
+/**
+ * Meta tags whose content is a URL, without their `og:` or `twitter:` prefix.
+ */
+const urlMetaKeys = ['image', 'image:url', 'image:secure_url', 'image:src']
+
+export function extractMetaData(
+  elem: Element,
+  mode?: 'basic' | 'extended',
+  options?: ExtractOptions,
+) {
   const content = Object.create(null)
   const setContent = (
     type: keyof SemanticMarkdownAST.MetaDataNode['content'],
@@ -28,13 +41,17 @@ export function extractMetaData(elem: Element, mode?: 'basic' | 'extended') {
     'Content-Security-Policy',
   ]
   metaTags.forEach(metaTag => {
-    const content = metaTag.getAttribute('content')
-    if (!content) {
-      return
-    }
+    let content = metaTag.getAttribute('content')
 
     const property = metaTag.getAttribute('property')
     const name = metaTag.getAttribute('name')
+    const key = (property ?? name)?.replace(/^(og|twitter):/, '')
+    if (content && key && urlMetaKeys.includes(key)) {
+      content = resolveUrl(content, metaTag, options, 'image')
+    }
+    if (!content) {
+      return
+    }
 
     if (property?.startsWith('og:')) {
       if (mode === 'extended') {
@@ -0,0 +1,134 @@
+export type Footnotes = {
+  /**
+   * The elements to replace with footnote references, and their labels.
+   */
+  references: Map<Element, string>
+  /**
+   * The notes, in order of their first reference, and their labels.
+   */
+  notes: Map<Element, string>
+  /**
+   * The notes, the lists and sections that only hold notes, and the links
+   * from notes back to their references.
+   */
+  hidden: Set<Element>
+}
+
+/**
+ * Find the footnote references in an element and the notes they point to.
+ * A reference is a fragment link with `role="doc-noteref"`, or one inside
+ * or around a `<sup>`. Its target is a note if it has a `doc-endnote` or
+ * `doc-footnote` role, or if it's a list item inside a `doc-endnotes`
+ * section or with a link back to the reference.
+ */
+export function findFootnotes(root: Element): Footnotes {
+  const footnotes: Footnotes = {
+    references: new Map(),
+    notes: new Map(),
+    hidden: new Set(),
+  }
+  const labels = new Set<string>()
+  const referenceIds = new Set<string>()
+
+  for (const link of Array.from(root.querySelectorAll('a[href^="#"]'))) {
+    const sup =
+      link.parentElement?.tagName === 'SUP'
+        ? link.parentElement
+        : link.querySelector('sup')
+    if (!sup && link.getAttribute('role') !== 'doc-noteref') {
+      continue
+    }
+    const id = decodeFragment(link.getAttribute('href')!.slice(1))
+    const note = id && findElementById(root, id)
+    if (!note || note.contains(link)) {
+      continue
+    }
+    // The <sup> is replaced too when it only holds the link.
+    const reference =
+      sup?.contains(link) &&
+      sup.textContent?.trim() === link.textContent?.trim()
+        ? sup
+        : link
+    const ids = [link.id, reference.id].filter(Boolean)
+    if (!isNote(note, ids)) {
+      continue
+    }
+    let label = footnotes.notes.get(note)
+    if (!label) {
+      label = createLabel(link.textContent ?? '', labels)
+      footnotes.notes.set(note, label)
+    }
+    footnotes.references.set(reference, label)
+    ids.forEach(id => referenceIds.add(id))
+  }
+
+  for (const note of footnotes.notes.keys()) {
+    footnotes.hidden.add(note)
+    for (const link of Array.from(note.querySelectorAll('a[href^="#"]'))) {
+      if (
+        link.getAttribute('role') === 'doc-backlink' ||
+        referenceIds.has(decodeFragment(link.getAttribute('href')!.slice(1)))
+      ) {
+        footnotes.hidden.add(link)
+      }
+    }
+    const list = note.parentElement
+    if (
+      list &&
+      Array.from(list.children).every(item => footnotes.notes.has(item))
+    ) {
+      footnotes.hidden.add(list)
+    }
+    const section = note.closest('[role="doc-endnotes"]')
+    if (section && root.contains(section) && section !== root) {
+      footnotes.hidden.add(section)
+    }
+  }
+  return footnotes
+}
+
+function isNote(element: Element, referenceIds: string[]) {
+  const role = element.getAttribute('role')
+  if (role === 'doc-endnote' || role === 'doc-footnote') {
+    return true
+  }
+  return (
+    element.tagName === 'LI' &&
+    (!!element.closest('[role="doc-endnotes"]') ||
+      referenceIds.some(id =>
+        Array.from(element.querySelectorAll('a[href^="#"]')).some(
+          link => decodeFragment(link.getAttribute('href')!.slice(1)) === id,
+        ),
+      ))
+  )
+}
+
+/**
+ * Use the reference's text as the label (without brackets), unless it's
+ * taken or can't be used in Markdown, in which case the next free number is
+ * used.
+ */
+function createLabel(text: string, labels: Set<string>) {
+  let label = text.trim().replace(/^\[(.*)\]$/, '$1')
+  if (!/^[\w-]+$/.test(label) || labels.has(label)) {
+    let number = labels.size + 1
+    while (labels.has(String(number))) {
+      number++
+    }
+    label = String(number)
+  }
+  labels.add(label)
+  return label
+}
+
+function findElementById(root: Element, id: string) {
+  return root.querySelector(`[id="${id.replace(/["\\]/g, '\\$&')}"]`)
+}
+
+function decodeFragment(fragment: string) {
+  try {
+    return decodeURIComponent(fragment)
+  } catch {
+    return fragment
+  }
+}
@@ -1,37 +1,72 @@
 import type {
+  ElementTranslator,
   ExtractOptions,
   Node as MarkdownNode,
   SemanticMarkdownAST,
+  UrlContext,
 } from '../types/markdownTypes'
-import { escapeMarkdownCharacters } from './domUtils'
+import { isAttachedNode, isInlineNode, visit } from './astUtils'
+import { findBoilerplate } from './boilerplate'
+import {
+  escapeMarkdownCharacters,
+  getElementSelector,
+  getElementXPath,
+  isFormControl,
+} from './domUtils'
 import { _Node } from './ElementNode'
 import { extractMetaData } from './extractMetaData'
+import { type Footnotes, findFootnotes } from './footnotes'
+import { getImageAlt, pickSrcsetUrl, resolveImageSource } from './images'
+import { getTeXAnnotation, mathMLToTeX } from './mathml'
+import { parseVideoEmbedUrl, resolveUrl } from './urlUtils'
 
 const noop = () => {}
 
-const lineBreak: MarkdownNode = Object.freeze({
-  type: 'text',
-  content: '\n',
-})
+type TagTranslator<T extends keyof HTMLElementTagNameMap> = ElementTranslator<
+  HTMLElementTagNameMap[T]
+>
 
-const contentBreak: MarkdownNode = Object.freeze({
-  type: 'text',
-  content: '\n\n',
-})
+type RegisteredTranslator = {
+  match: string
+  translator: ElementTranslator<any>
+}
 
-const horizontalRule: MarkdownNode = Object.freeze({
-  type: 'text',
-  content: '---\n\n',
-})
+const registeredTranslators: RegisteredTranslator[] = []
 
-type ElementTranslator<T extends keyof HTMLElementTagNameMap> = (
-  element: HTMLElementTagNameMap[T],
-  result: MarkdownNode[],
-  options: ExtractOptions | undefined,
-  indentLevel: number,
-) => void
+/**
+ * The footnotes found by the outermost `htmlToMarkdownAST` call of a
+ * conversion, shared with its nested calls.
+ */
+const footnotesByOptions = new WeakMap<ExtractOptions, Footnotes>()
+
+/**
+ * The boilerplate found by the outermost `htmlToMarkdownAST` call of a
+ * conversion, which its nested calls skip.
+ */
+const boilerplateByOptions = new WeakMap<ExtractOptions, Set<Element>>()
+
+/**
+ * Registers a translator for elements with the given tag name (including
+ * custom element names) or matching the given CSS selector, in every
+ * conversion. It takes precedence over the default translator and earlier
+ * registrations, which can be called through its `next` argument.
+ * @returns A function that unregisters the translator.
+ */
+export function registerTranslator<T extends Element = Element>(
+  match: string,
+  translator: ElementTranslator<T>,
+): () => void {
+  const registration: RegisteredTranslator = { match, translator }
+  registeredTranslators.push(registration)
+  return () => {
+    const index = registeredTranslators.indexOf(registration)
+    if (index !== -1) {
+      registeredTranslators.splice(index, 1)
+    }
+  }
+}
 
-const headingTranslator: ElementTranslator<
+const headingTranslator: TagTranslator<
   'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6'
 > = (headingNode, result, options) => {
   const level = Number.parseInt(
@@ -45,33 +80,65 @@ const headingTranslator: ElementTranslator<
   })
 }
 
-const listTranslator: ElementTranslator<'ul' | 'ol'> = (
+const listTranslator: TagTranslator<'ul' | 'ol'> = (
   listNode,
   result,
   options,
   indentLevel,
 ) => {
-  result.push({
+  const listResult: SemanticMarkdownAST.ListNode = {
     type: 'list',
     ordered: listNode.tagName === 'OL',
-    items: Array.from(listNode.children).map(li => ({
-      type: 'listItem',
-      content: htmlToMarkdownAST(li, options, indentLevel + 1),
-    })),
-  })
+    items: Array.from(listNode.children).map(li => {
+      const item: SemanticMarkdownAST.ListItemNode = {
+        type: 'listItem',
+        content: htmlToMarkdownAST(li, options, indentLevel + 1),
+      }
+      // A leading checkbox makes the item a task.
+      const container =
+        item.content[0]?.type === 'paragraph'
+          ? item.content[0].content
+          : item.content
+      const firstNode = container[0]
+      if (firstNode?.type === 'formControl' && firstNode.kind === 'checkbox') {
+        container.shift()
+        item.checked = !!firstNode.checked
+        if (firstNode.elementId && options?.interactiveElements) {
+          unindexElement(
+            firstNode.elementId,
+            item.content,
+            options.interactiveElements,
+          )
+        }
+      }
+      if (options?.enableSourceTracking) {
+        addNodeSource(item, li)
+      }
+      return item
+    }),
+  }
+  if (isOrderedList(listNode)) {
+    if (listNode.hasAttribute('start')) {
+      listResult.start = listNode.start
+    }
+    if (listNode.reversed) {
+      listResult.reversed = true
+    }
+  }
+  result.push(listResult)
 }
 
-const semanticHtmlTranslator: ElementTranslator<any> = (
-  element: Element,
-  result,
-  options,
-) => {
-  result.push({
-    type: 'semanticHtml',
-    htmlType: element.tagName.toLowerCase() as any,
-    content: htmlToMarkdownAST(element, options),
-  })
-}
+const semanticHtmlTranslator =
+  (
+    htmlType: SemanticMarkdownAST.SemanticHtmlNode['htmlType'],
+  ): ElementTranslator =>
+  (element, result, options) => {
+    result.push({
+      type: 'semanticHtml',
+      htmlType,
+      content: htmlToMarkdownAST(element, options),
+    })
+  }
 
 const formattingTagMap = {
   strong: 'bold',
@@ -79,9 +146,10 @@ const formattingTagMap = {
   em: 'italic',
   i: 'italic',
   s: 'strikethrough',
+  del: 'strikethrough',
 } as const
 
-const formattingTranslator: ElementTranslator<keyof typeof formattingTagMap> = (
+const formattingTranslator: TagTranslator<keyof typeof formattingTagMap> = (
   element,
   result,
   options,
@@ -96,8 +164,269 @@ const formattingTranslator: ElementTranslator<keyof typeof formattingTagMap> = (
   }
 }
 
+/**
+ * Create a form control node with the properties shared by all controls.
+ */
+function createFormControl(
+  element: HTMLElement & { name: string; disabled: boolean },
+  kind: string,
+  options: ExtractOptions | undefined,
+): SemanticMarkdownAST.FormControlNode {
+  const node: SemanticMarkdownAST.FormControlNode = {
+    type: 'formControl',
+    kind,
+  }
+  if (element.name) {
+    node.name = element.name
+  }
+  if (element.hasAttribute('required')) {
+    node.required = true
+  }
+  if (element.disabled) {
+    node.disabled = true
+  }
+  if (options?.indexInteractiveElements) {
+    node.elementId = indexElement(element, options)
+  }
+  return node
+}
+
+/**
+ * Get the `<source>` children of a `<video>`, `<audio>` or `<picture>`
+ * element. Picture sources use the best URL of their `srcset`.
+ */
+function getMediaSources(element: Element, options?: ExtractOptions) {
+  const sources: SemanticMarkdownAST.MediaSource[] = []
+  for (const child of Array.from(element.children)) {
+    if (child.tagName !== 'SOURCE') {
+      continue
+    }
+    const sourceNode = child as HTMLSourceElement
+    const url = sourceNode.getAttribute('src') || pickSrcsetUrl(sourceNode)
+    const src =
+      url &&
+      resolveUrl(
+        url,
+        sourceNode,
+        options,
+        element.tagName === 'PICTURE' ? 'image' : 'media',
+      )
+    if (!src) {
+      continue
+    }
+    const source: SemanticMarkdownAST.MediaSource = { src }
+    if (sourceNode.type) {
+      source.type = sourceNode.type
+    }
+    if (sourceNode.media) {
+      source.media = sourceNode.media
+    }
+    sources.push(source)
+  }
+  return sources
+}
+
+function addMediaDetails(
+  node: SemanticMarkdownAST.VideoNode | SemanticMarkdownAST.AudioNode,
+  element: HTMLMediaElement,
+  options: ExtractOptions | undefined,
+) {
+  const sources = getMediaSources(element, options)
+  if (sources.length) {
+    node.sources = sources
+    node.src ||= sources[0].src
+  }
+  const tracks: SemanticMarkdownAST.MediaTrack[] = []
+  for (const child of Array.from(element.children)) {
+    if (child.tagName !== 'TRACK') {
+      continue
+    }
+    const trackNode = child as HTMLTrackElement
+    const src = getUrlAttribute(trackNode, 'src', options, 'media')
+    if (!src) {
+      continue
+    }
+    const track: SemanticMarkdownAST.MediaTrack = {
+      src,
+      kind: trackNode.kind || 'subtitles',
+    }
+    if (trackNode.srclang) {
+      track.srclang = trackNode.srclang
+    }
+    if (trackNode.label) {
+      track.label = escapeMarkdownCharacters(trackNode.label)
+    }
+    tracks.push(track)
+  }
+  if (tracks.length) {
+    node.tracks = tracks
+  }
+  addTitle(node, element)
+}
+
+/**
+ * Get a URL attribute resolved by `resolveUrl`, an empty string if it's
+ * missing, or null if it was dropped by `rewriteUrl`.
+ */
+function getUrlAttribute(
+  element: Element,
+  name: string,
+  options: ExtractOptions | undefined,
+  kind: UrlContext['kind'],
+) {
+  const url = element.getAttribute(name)
+  return url ? resolveUrl(url, element, options, kind) : ''
+}
+
+function addDimensions(
+  node: SemanticMarkdownAST.VideoNode | SemanticMarkdownAST.EmbedNode,
+  element: Element,
+) {
+  for (const dimension of ['width', 'height'] as const) {
+    const value = Number.parseInt(element.getAttribute(dimension) ?? '', 10)
+    if (value > 0) {
+      node[dimension] = value
+    }
+  }
+}
+
+function addTitle(
+  node:
+    | SemanticMarkdownAST.VideoNode
+    | SemanticMarkdownAST.AudioNode
+    | SemanticMarkdownAST.EmbedNode,
+  element: Element,
+) {
+  const title = (
+    element.getAttribute('title') ?? element.getAttribute('aria-label')
+  )?.trim()
+  if (title) {
+    node.title = escapeMarkdownCharacters(title)
+  }
+}
+
+/**
+ * Create an embed node, or a video node when the URL is a known video
+ * player.
+ */
+function createEmbedNode(
+  element: HTMLIFrameElement | HTMLEmbedElement | HTMLObjectElement,
+  htmlType: SemanticMarkdownAST.EmbedNode['htmlType'],
+  src: string,
+) {
+  let node: SemanticMarkdownAST.VideoNode | SemanticMarkdownAST.EmbedNode
+  const video = parseVideoEmbedUrl(src)
+  if (video) {
+    node = { type: 'video', src: video.url, provider: video.provider }
+  } else {
+    node = { type: 'embed', htmlType, src }
+    const mimeType = element.getAttribute('type')
+    if (mimeType) {
+      node.mimeType = mimeType
+    }
+  }
+  addDimensions(node, element)
+  addTitle(node, element)
+  return node
+}
+
+const inlineSemanticTranslator =
+  (
+    htmlType: SemanticMarkdownAST.InlineSemanticNode['htmlType'],
+  ): ElementTranslator =>
+  (element, result, options, indentLevel) => {
+    if (!element.textContent?.trim()) {
+      return
+    }
+    const node: SemanticMarkdownAST.InlineSemanticNode = {
+      type: 'inlineSemantic',
+      htmlType,
+      content: htmlToMarkdownAST(element, options, indentLevel + 1),
+    }
+    if (node.htmlType === 'abbr') {
+      const title = element.getAttribute('title')?.trim()
+      if (title) {
+        node.title = title
+      }
+    } else if (node.htmlType === 'ruby') {
+      const annotation = Array.from(element.querySelectorAll('rt'))
+        .map(rt => rt.textContent?.trim())
+        .filter(Boolean)
+        .join(' ')
+      if (annotation) {
+        node.annotation = annotation
+      }
+    }
+    // Superscripts and subscripts are attached to the content before them,
+    // unless it's separated by whitespace.
+    const prevNode = result.at(-1)
+    const prevSibling = element.previousSibling
+    if (
+      isAttachedNode(node) &&
+      prevNode &&
+      isInlineNode(prevNode) &&
+      prevSibling &&
+      isTextNode(prevSibling) &&
+      /\s$/.test(prevSibling.textContent!)
+    ) {
+      if (prevNode.type !== 'text') {
+        result.push({ type: 'text', content: ' ' })
+      } else if (!/\s$/.test(prevNode.content)) {
+        prevNode.content += ' '
+      }
+    }
+    result.push(node)
+  }
+
+const mathTranslator: ElementTranslator = (mathNode, result) => {
+  const content = getTeXAnnotation(mathNode) ?? mathMLToTeX(mathNode).trim()
+  if (content) {
+    result.push({
+      type: 'math',
+      content,
+      inline: mathNode.getAttribute('display') !== 'block',
+    })
+  }
+}
+
+/**
+ * Translate math rendered by KaTeX or MathJax (version 2) from the MathML
+ * they include for accessibility, instead of the glyphs they render.
+ */
+const renderedMathTranslator: TagTranslator<'span' | 'div'> = (
+  element,
+  result,
+  options,
+  indentLevel,
+  next,
+) => {
+  const isMathJax = /^MathJax(_Display|_Preview|_SVG|_SVG_Display|_CHTML)?$/
+  if (Array.from(element.classList).some(_ => isMathJax.test(_))) {
+    // MathJax keeps the TeX in a script element, which is translated instead.
+    let sibling = element.nextElementSibling
+    while (
+      sibling &&
+      Array.from(sibling.classList).some(_ => isMathJax.test(_))
+    ) {
+      sibling = sibling.nextElementSibling
+    }
+    if (isMathScript(sibling)) {
+      return
+    }
+  } else if (!element.classList.contains('katex')) {
+    return next()
+  }
+  const math = element.querySelector('math')
+  if (!math) {
+    return next()
+  }
+  mathTranslator(math, result, options, indentLevel, noop)
+}
+
 type ElementTranslatorMap = {
-  [K in keyof HTMLElementTagNameMap]?: ElementTranslator<K>
+  [K in keyof HTMLElementTagNameMap]?: TagTranslator<K>
+} & {
+  math?: ElementTranslator
 }
 
 const translators: ElementTranslatorMap = {
@@ -107,14 +436,12 @@ const translators: ElementTranslatorMap = {
     if (!content.length) {
       return
     }
-    for (const node of content) {
-      result.push(node)
-    }
-    result.push(contentBreak)
+    result.push({ type: 'paragraph', content })
   },
 
   // Links
   a(linkNode, result, options) {
+    const start = result.length
     // Check if the href is a data URL for an image
     if (
       typeof linkNode.href === 'string' &&
@@ -128,14 +455,10 @@ const translators: ElementTranslatorMap = {
       })
     } else {
       // Process the link as usual
-      let href = linkNode.href
-      if (typeof href === 'string') {
-        href =
-          options?.websiteDomain && href.startsWith(options.websiteDomain)
-            ? href.substring(options.websiteDomain.length)
-            : href
-      } else {
-        href = '#' // Use a default value when href is not a string
+      const href = getUrlAttribute(linkNode, 'href', options, 'link')
+      if (href === null) {
+        result.push(...htmlToMarkdownAST(linkNode, options))
+        return
       }
       // if all children are text,
       if (
@@ -162,53 +485,126 @@ const translators: ElementTranslatorMap = {
         })
       }
     }
+    if (options?.indexInteractiveElements && linkNode.hasAttribute('href')) {
+      const linkResult = result[start]
+      if (linkResult?.type === 'link') {
+        linkResult.elementId = indexElement(linkNode, options)
+      }
+    }
   },
 
   // Images
   img(imageNode, result, options) {
-    if (imageNode.src?.startsWith('data:image')) {
-      result.push({
-        type: 'image',
-        src: '-',
-        alt: escapeMarkdownCharacters(imageNode.alt),
-      })
-    } else {
-      const src =
-        options?.websiteDomain &&
-        imageNode.src?.startsWith(options.websiteDomain)
-          ? imageNode.src?.substring(options.websiteDomain.length)
-          : imageNode.src
+    let src = resolveUrl(
+      resolveImageSource(imageNode),
+      imageNode,
+      options,
+      'image',
+    )
+    if (src === null) {
+      return
+    }
+    if (src.startsWith('data:image')) {
+      src = '-'
+    }
+    const node: SemanticMarkdownAST.ImageNode = {
+      type: 'image',
+      src,
+      alt: escapeMarkdownCharacters(getImageAlt(imageNode)),
+    }
+    for (const dimension of ['width', 'height'] as const) {
+      const value = Number.parseInt(
+        imageNode.getAttribute(dimension) ??
+          imageNode.getAttribute(`data-${dimension}`) ??
+          '',
+        10,
+      )
+      if (value > 0) {
+        node[dimension] = value
+      }
+    }
+    const title = imageNode.getAttribute('title')?.trim()
+    if (title) {
+      node.title = escapeMarkdownCharacters(title)
+    }
+    result.push(node)
+  },
 
-      result.push({
-        type: 'image',
-        src,
-        alt: escapeMarkdownCharacters(imageNode.alt),
-      })
+  // Pictures
+  picture(pictureNode, result, options, indentLevel) {
+    const start = result.length
+    result.push(...htmlToMarkdownAST(pictureNode, options, indentLevel))
+    const sources = getMediaSources(pictureNode, options)
+    const image = result.slice(start).find(_ => _.type === 'image')
+    if (image && sources.length) {
+      image.sources = sources
     }
   },
 
   // Videos
-  video(videoNode, result) {
-    result.push({
+  video(videoNode, result, options) {
+    const src = getUrlAttribute(videoNode, 'src', options, 'media')
+    if (src === null) {
+      return
+    }
+    const node: SemanticMarkdownAST.VideoNode = {
       type: 'video',
-      src: videoNode.src,
-      poster: escapeMarkdownCharacters(videoNode.poster),
+      src,
+      poster: escapeMarkdownCharacters(
+        getUrlAttribute(videoNode, 'poster', options, 'image') ?? '',
+      ),
       controls: videoNode.controls,
-    })
+    }
+    addMediaDetails(node, videoNode, options)
+    addDimensions(node, videoNode)
+    result.push(node)
+  },
+
+  // Audio
+  audio(audioNode, result, options) {
+    const src = getUrlAttribute(audioNode, 'src', options, 'media')
+    if (src === null) {
+      return
+    }
+    const node: SemanticMarkdownAST.AudioNode = {
+      type: 'audio',
+      src,
+      controls: audioNode.controls,
+    }
+    addMediaDetails(node, audioNode, options)
+    result.push(node)
+  },
+
+  // Embedded content
+  iframe(iframeNode, result, options) {
+    const src = getUrlAttribute(iframeNode, 'src', options, 'media')
+    if (src && src !== 'about:blank') {
+      result.push(createEmbedNode(iframeNode, 'iframe', src))
+    }
+  },
+  embed(embedNode, result, options) {
+    const src = getUrlAttribute(embedNode, 'src', options, 'media')
+    if (src) {
+      result.push(createEmbedNode(embedNode, 'embed', src))
+    }
+  },
+  object(objectNode, result, options, _indentLevel, next) {
+    // Without data, the fallback content is shown instead.
+    const src = getUrlAttribute(objectNode, 'data', options, 'media')
+    if (!src) {
+      return next()
+    }
+    result.push(createEmbedNode(objectNode, 'object', src))
   },
 
   // Line breaks
   br(_, result) {
-    result.push(lineBreak)
+    result.push({ type: 'lineBreak' })
   },
 
   // Content breaks
   hr(_, result) {
-    const prevSibling = result.at(-1)
-    if (prevSibling !== contentBreak) {
-      result.push(contentBreak)
-    }
-    result.push(horizontalRule)
+    result.push({ type: 'thematicBreak' })
   },
 
   // Tables
@@ -240,9 +636,16 @@ const translators: ElementTranslatorMap = {
           rowspan: rowspan > 1 ? rowspan : undefined,
         }
         columnIndex += colspan
+        if (options?.enableSourceTracking) {
+          addNodeSource(cellNode, cell)
+        }
         return cellNode
       })
-      return { type: 'tableRow' as const, cells }
+      const rowNode = { type: 'tableRow' as const, cells }
+      if (options?.enableSourceTracking) {
+        addNodeSource(rowNode, row)
+      }
+      return rowNode
     })
 
     if (markdownTableRows.length > 0) {
@@ -318,25 +721,191 @@ const translators: ElementTranslatorMap = {
   em: formattingTranslator,
   i: formattingTranslator,
   s: formattingTranslator,
+  del: formattingTranslator,
+
+  // Inline semantic elements
+  abbr: inlineSemanticTranslator('abbr'),
+  cite: inlineSemanticTranslator('cite'),
+  ins: inlineSemanticTranslator('ins'),
+  kbd: inlineSemanticTranslator('kbd'),
+  q: inlineSemanticTranslator('q'),
+  ruby: inlineSemanticTranslator('ruby'),
+  small: inlineSemanticTranslator('small'),
+  sub: inlineSemanticTranslator('sub'),
+  sup: inlineSemanticTranslator('sup'),
+  u: inlineSemanticTranslator('u'),
+  // Ruby annotations are included in their ruby's node.
+  rp: noop,
+  rt: noop,
 
   // Semantic HTML elements
-  article: semanticHtmlTranslator,
-  aside: semanticHtmlTranslator,
-  details: semanticHtmlTranslator,
-  figcaption: semanticHtmlTranslator,
-  figure: semanticHtmlTranslator,
-  footer: semanticHtmlTranslator,
-  header: semanticHtmlTranslator,
-  main: semanticHtmlTranslator,
-  mark: semanticHtmlTranslator,
-  nav: semanticHtmlTranslator,
-  section: semanticHtmlTranslator,
-  summary: semanticHtmlTranslator,
-  time: semanticHtmlTranslator,
+  article: semanticHtmlTranslator('article'),
+  aside: semanticHtmlTranslator('aside'),
+  details: semanticHtmlTranslator('details'),
+  figcaption: semanticHtmlTranslator('figcaption'),
+  figure: semanticHtmlTranslator('figure'),
+  footer: semanticHtmlTranslator('footer'),
+  header: semanticHtmlTranslator('header'),
+  main: semanticHtmlTranslator('main'),
+  mark: semanticHtmlTranslator('mark'),
+  nav: semanticHtmlTranslator('nav'),
+  section: semanticHtmlTranslator('section'),
+  summary: semanticHtmlTranslator('summary'),
+  time: semanticHtmlTranslator('time'),
+
+  // Definition lists
+  dl(listNode, result, options, indentLevel) {
+    const items: SemanticMarkdownAST.DefinitionListNode['items'] = []
+    const addItems = (parent: Element) => {
+      for (const child of Array.from(parent.children)) {
+        if (child.tagName === 'DIV') {
+          // Groups of terms and descriptions may be wrapped in a <div>.
+          addItems(child)
+        } else if (child.tagName === 'DT' || child.tagName === 'DD') {
+          const item: SemanticMarkdownAST.DefinitionListNode['items'][number] =
+            {
+              type:
+                child.tagName === 'DT'
+                  ? 'definitionTerm'
+                  : 'definitionDescription',
+              content: htmlToMarkdownAST(child, options, indentLevel + 1),
+            }
+          if (options?.enableSourceTracking) {
+            addNodeSource(item, child)
+          }
+          items.push(item)
+        }
+      }
+    }
+    addItems(listNode)
+    result.push({ type: 'definitionList', items })
+  },
+
+  // Forms
+  input(inputNode, result, options) {
+    const kind = inputNode.type
+    if (kind === 'hidden') {
+      return
+    }
+    const node = createFormControl(inputNode, kind, options)
+    let label: string | undefined
+    if (/^(button|submit|reset|image)$/.test(kind)) {
+      label =
+        inputNode.value ||
+        inputNode.getAttribute('alt') ||
+        getControlLabel(inputNode)
+    } else {
+      label = getControlLabel(inputNode)
+      if (kind === 'checkbox' || kind === 'radio') {
+        node.checked = inputNode.checked
+      } else if (kind !== 'password' && inputNode.value) {
+        node.value = escapeMarkdownCharacters(inputNode.value)
+      }
+    }
+    if (label) {
+      node.label = escapeMarkdownCharacters(label)
+    }
+    result.push(node)
+  },
+  select(selectNode, result, options) {
+    const node = createFormControl(selectNode, 'select', options)
+    const label = getControlLabel(selectNode)
+    if (label) {
+      node.label = escapeMarkdownCharacters(label)
+    }
+    node.options = Array.from(selectNode.options).map(option => {
+      const formOption: SemanticMarkdownAST.FormControlOption = {
+        label: escapeMarkdownCharacters(collapseWhitespace(option.label)),
+        value: option.value,
+        selected: option.selected,
+      }
+      if (option.disabled) {
+        formOption.disabled = true
+      }
+      return formOption
+    })
+    if (selectNode.multiple) {
+      node.multiple = true
+    }
+    result.push(node)
+  },
+  textarea(textareaNode, result, options) {
+    const node = createFormControl(textareaNode, 'textarea', options)
+    const label = getControlLabel(textareaNode)
+    if (label) {
+      node.label = escapeMarkdownCharacters(label)
+    }
+    if (textareaNode.value) {
+      node.value = escapeMarkdownCharacters(textareaNode.value)
+    }
+    result.push(node)
+  },
+  button(buttonNode, result, options) {
+    // Buttons outside of forms don't submit or reset anything.
+    const kind = buttonNode.form ? buttonNode.type : 'button'
+    const node = createFormControl(buttonNode, kind, options)
+    const label =
+      collapseWhitespace(buttonNode.textContent ?? '') ||
+      getControlLabel(buttonNode)
+    if (label) {
+      node.label = escapeMarkdownCharacters(label)
+    }
+    result.push(node)
+  },
+  label(labelNode, result, options, indentLevel, next) {
+    const control = labelNode.control
+    if (!control) {
+      return next()
+    }
+    // The label text is included in the control's node, so only the control
+    // is kept when the label wraps it.
+    if (labelNode.contains(control)) {
+      result.push(
+        ...htmlToMarkdownAST(labelNode, options, indentLevel).filter(
+          _ => _.type === 'formControl',
+        ),
+      )
+    }
+  },
+  fieldset(fieldsetNode, result, options, indentLevel) {
+    const legend = Array.from(fieldsetNode.children).find(
+      _ => _.tagName === 'LEGEND',
+    )
+    const legendText = collapseWhitespace(legend?.textContent ?? '')
+    result.push({
+      type: 'fieldset',
+      legend: legendText ? escapeMarkdownCharacters(legendText) : undefined,
+      content: htmlToMarkdownAST(fieldsetNode, options, indentLevel),
+    })
+  },
+  legend(legendNode, _result, _options, _indentLevel, next) {
+    // Legends are included in their fieldset's node.
+    if (legendNode.parentElement?.tagName !== 'FIELDSET') {
+      next()
+    }
+  },
+  datalist: noop,
+
+  // Math
+  math: mathTranslator,
+  span: renderedMathTranslator,
+  div: renderedMathTranslator,
 
   // Ignored elements
   noscript: noop,
-  script: noop,
+  script(scriptNode, result) {
+    // MathJax (version 2) keeps the TeX of each expression in a script.
+    if (isMathScript(scriptNode)) {
+      const content = scriptNode.textContent?.trim()
+      if (content) {
+        result.push({
+          type: 'math',
+          content,
+          inline: !/mode=display/.test(scriptNode.type),
+        })
+      }
+    }
+  },
   style: noop,
   html: noop,
 }
@@ -346,6 +915,14 @@ export function htmlToMarkdownAST(
   options?: ExtractOptions,
   indentLevel = 0,
 ): MarkdownNode[] {
+  if (options?.removeBoilerplate && !boilerplateByOptions.has(options)) {
+    return skipBoilerplate(element, options, indentLevel)
+  }
+  if (options?.extractFootnotes && !footnotesByOptions.has(options)) {
+    return extractFootnotes(element, options, indentLevel)
+  }
+  const footnotes = options && footnotesByOptions.get(options)
+  const boilerplate = options && boilerplateByOptions.get(options)
   const result: MarkdownNode[] = []
 
   const processChild = (child: Node) => {
@@ -353,11 +930,19 @@ export function htmlToMarkdownAST(
       const textContent = escapeMarkdownCharacters(
         child.textContent?.trim() ?? '',
       )
-      if (textContent) {
-        result.push({
+      // Superscripts and subscripts are attached to the content after them,
+      // unless it's separated by whitespace.
+      const isSpaced =
+        isAttachedNode(result.at(-1)) && /^\s/.test(child.textContent!)
+      if (textContent || isSpaced) {
+        const textNode: MarkdownNode = {
           type: 'text',
-          content: textContent,
-        })
+          content: isSpaced ? ` ${textContent}` : textContent,
+        }
+        if (options?.enableSourceTracking) {
+          addNodeSource(textNode, element)
+        }
+        result.push(textNode)
       }
       return
     }
@@ -367,6 +952,18 @@ export function htmlToMarkdownAST(
     if (isSlotElement(child)) {
       return child.assignedNodes().forEach(processChild)
     }
+    const start = result.length
+    processElement(child)
+    if (options?.enableSourceTracking) {
+      // Attribute the new nodes (and any descendants created without a
+      // source, like those from overrideElementProcessing) to this element.
+      for (const node of result.slice(start)) {
+        addNodeSource(node, child)
+      }
+    }
+  }
+
+  const processElement = (child: Element) => {
     const overrideResult = options?.overrideElementProcessing?.(
       child,
       options,
@@ -383,8 +980,16 @@ export function htmlToMarkdownAST(
         return
       }
 
+      if (boilerplate?.has(child)) {
+        return
+      }
+
       if (options?.includeMetaData && tagName === 'head') {
-        const metaData = extractMetaData(child, options.includeMetaData)
+        const metaData = extractMetaData(
+          child,
+          options.includeMetaData,
+          options,
+        )
         result.push({ type: 'meta', content: metaData })
         return
       }
@@ -393,6 +998,17 @@ export function htmlToMarkdownAST(
         return
       }
 
+      if (footnotes) {
+        if (footnotes.hidden.has(child)) {
+          return
+        }
+        const label = footnotes.references.get(child)
+        if (label) {
+          result.push({ type: 'footnoteReference', label })
+          return
+        }
+      }
+
       const role = child.getAttribute('role')
       if (role === 'article') {
         result.push({
@@ -407,10 +1023,15 @@ export function htmlToMarkdownAST(
         const content = htmlToMarkdownAST(child, options, indentLevel + 1)
         if (content.length) {
           const prevSibling = result.at(-1)
-          if (prevSibling !== lineBreak && prevSibling !== contentBreak) {
-            result.push(lineBreak)
+          if (
+            prevSibling?.type !== 'lineBreak' &&
+            prevSibling?.type !== 'paragraph'
+          ) {
+            result.push({ type: 'lineBreak' })
           }
-          if (isInlineMarkdown(content[0])) {
+          const firstNode =
+            content[0].type === 'paragraph' ? content[0].content[0] : content[0]
+          if (isInlineNode(firstNode)) {
             result.push({ type: 'text', content: '-' })
           }
           result.push(...content)
@@ -418,25 +1039,50 @@ export function htmlToMarkdownAST(
         return
       }
 
-      const translator = translators[
-        tagName as keyof typeof translators
-      ] as ElementTranslator<any>
-
-      if (translator) {
-        translator(child, result, options, indentLevel)
+      // Links and form controls are indexed by their own translators.
+      if (
+        options?.indexInteractiveElements &&
+        tagName !== 'a' &&
+        !isFormControl(child) &&
+        isInteractiveElement(child)
+      ) {
+        const content = htmlToMarkdownAST(child, options, indentLevel)
+        result.push({
+          type: 'interactive',
+          elementId: indexElement(child, options),
+          role: child.getAttribute('role') || tagName,
+          content: content.length
+            ? content
+            : [
+                {
+                  type: 'text',
+                  content: escapeMarkdownCharacters(getElementLabel(child)),
+                },
+              ],
+        })
         return
       }
 
-      const unhandledElementProcessing = options?.processUnhandledElement?.(
-        child,
-        options,
-        indentLevel,
-      )
-      if (unhandledElementProcessing) {
-        result.push(...unhandledElementProcessing)
-      } else {
-        result.push(...htmlToMarkdownAST(child, options, indentLevel + 1))
+      const chain = getTranslators(child, tagName, options)
+      const callTranslator = (index: number) => {
+        if (index < chain.length) {
+          chain[index](child, result, options, indentLevel, () =>
+            callTranslator(index + 1),
+          )
+          return
+        }
+        const unhandledElementProcessing = options?.processUnhandledElement?.(
+          child,
+          options,
+          indentLevel,
+        )
+        if (unhandledElementProcessing) {
+          result.push(...unhandledElementProcessing)
+        } else {
+          result.push(...htmlToMarkdownAST(child, options, indentLevel + 1))
+        }
       }
+      callTranslator(0)
     }
   }
 
@@ -446,6 +1092,226 @@ export function htmlToMarkdownAST(
   return result
 }
 
+/**
+ * Convert an element, skipping the boilerplate found in it.
+ */
+function skipBoilerplate(
+  element: Element,
+  options: ExtractOptions,
+  indentLevel: number,
+) {
+  const matches = findBoilerplate(
+    element,
+    typeof options.removeBoilerplate === 'object'
+      ? options.removeBoilerplate
+      : undefined,
+  )
+  options.boilerplateReport?.push(...matches)
+  boilerplateByOptions.set(options, new Set(matches.map(_ => _.element)))
+  try {
+    return htmlToMarkdownAST(element, options, indentLevel)
+  } finally {
+    boilerplateByOptions.delete(options)
+  }
+}
+
+/**
+ * Convert an element with its footnotes extracted, adding their definitions
+ * to the end of the result.
+ */
+function extractFootnotes(
+  element: Element,
+  options: ExtractOptions,
+  indentLevel: number,
+) {
+  const footnotes = findFootnotes(element)
+  footnotesByOptions.set(options, footnotes)
+  try {
+    const result = htmlToMarkdownAST(element, options, indentLevel)
+    footnotes.notes.forEach((label, note) => {
+      const content = htmlToMarkdownAST(note, options)
+      // Remove what's left of the back-references, like "^" or "↑".
+      while (
+        content[0]?.type === 'text' &&
+        /^(\s|\^|↑|↩|\uFE0E)*$/.test(content[0].content)
+      ) {
+        content.shift()
+      }
+      const definition: MarkdownNode = {
+        type: 'footnoteDefinition',
+        label,
+        content,
+      }
+      if (options.enableSourceTracking) {
+        addNodeSource(definition, note)
+      }
+      result.push(definition)
+    })
+    return result
+  } finally {
+    footnotesByOptions.delete(options)
+  }
+}
+
+const interactiveRoles = [
+  'button',
+  'checkbox',
+  'combobox',
+  'link',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'radio',
+  'searchbox',
+  'slider',
+  'spinbutton',
+  'switch',
+  'tab',
+  'textbox',
+  'treeitem',
+]
+
+function isInteractiveElement(element: Element) {
+  const role = element.getAttribute('role')
+  return !!role && interactiveRoles.includes(role)
+}
+
+/**
+ * Get the label of a form control from its `aria-label` attribute, its
+ * `<label>` elements, or its `placeholder` or `title` attribute.
+ */
+function getControlLabel(
+  element:
+    | HTMLInputElement
+    | HTMLSelectElement
+    | HTMLTextAreaElement
+    | HTMLButtonElement,
+) {
+  return (
+    element.getAttribute('aria-label')?.trim() ||
+    Array.from(element.labels ?? [])
+      .map(getLabelText)
+      .find(Boolean) ||
+    element.getAttribute('placeholder')?.trim() ||
+    element.getAttribute('title')?.trim() ||
+    undefined
+  )
+}
+
+/**
+ * Get the text of a `<label>` element, excluding the controls inside it.
+ */
+function getLabelText(label: HTMLLabelElement) {
+  let text = ''
+  const walk = (node: Node) => {
+    if (isTextNode(node)) {
+      text += node.textContent
+    } else if (isElement(node) && !isFormControl(node)) {
+      node.childNodes.forEach(walk)
+    }
+  }
+  walk(label)
+  return collapseWhitespace(text)
+}
+
+function collapseWhitespace(text: string) {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Get a label for an interactive element without text content.
+ */
+function getElementLabel(element: Element) {
+  const label =
+    element.getAttribute('aria-label') ||
+    element.getAttribute('placeholder') ||
+    element.getAttribute('title') ||
+    element.getAttribute('alt') ||
+    element.getAttribute('name')
+  return (
+    label?.trim() ||
+    element.getAttribute('role') ||
+    element.tagName.toLowerCase()
+  )
+}
+
+/**
+ * Assign the next ID in the `interactiveElements` map to an element.
+ */
+function indexElement(element: Element, options: ExtractOptions) {
+  const elements = (options.interactiveElements ??= {})
+  const elementId = `e${Object.keys(elements).length}`
+  elements[elementId] = element
+  return elementId
+}
+
+/**
+ * Remove an element from the `interactiveElements` map. The elements indexed
+ * after it must all be in the given nodes, where their IDs are moved down by
+ * one.
+ */
+function unindexElement(
+  elementId: string,
+  nodes: MarkdownNode[],
+  elements: Record<string, Element>,
+) {
+  const index = Number(elementId.slice(1))
+  const count = Object.keys(elements).length
+  for (let i = index; i < count - 1; i++) {
+    elements[`e${i}`] = elements[`e${i + 1}`]
+  }
+  delete elements[`e${count - 1}`]
+  visit(nodes, node => {
+    if ('elementId' in node && node.elementId) {
+      const nodeIndex = Number(node.elementId.slice(1))
+      if (nodeIndex > index) {
+        node.elementId = `e${nodeIndex - 1}`
+      }
+    }
+  })
+}
+
+/**
+ * Get the translators for an element, from highest to lowest precedence:
+ * those of plugins (later plugins first), those registered globally (latest
+ * first), and the default translator.
+ */
+function getTranslators(
+  element: Element,
+  tagName: string,
+  options: ExtractOptions | undefined,
+) {
+  const chain: ElementTranslator<any>[] = []
+  const addMatches = (registrations: RegisteredTranslator[]) => {
+    for (let i = registrations.length - 1; i >= 0; i--) {
+      const { match, translator } = registrations[i]
+      if (
+        /^[a-z][\w-]*$/i.test(match)
+          ? match.toLowerCase() === tagName
+          : element.matches(match)
+      ) {
+        chain.push(translator)
+      }
+    }
+  }
+  if (options?.plugins) {
+    for (let i = options.plugins.length - 1; i >= 0; i--) {
+      addMatches(
+        Object.entries(options.plugins[i].translators).map(
+          ([match, translator]) => ({ match, translator }),
+        ),
+      )
+    }
+  }
+  addMatches(registeredTranslators)
+  const defaultTranslator = translators[tagName as keyof typeof translators]
+  if (defaultTranslator) {
+    chain.push(defaultTranslator as ElementTranslator<any>)
+  }
+  return chain
+}
+
 function isTextNode(node: Node): node is Text {
   return node.nodeType === _Node.TEXT_NODE
 }
@@ -454,6 +1320,17 @@ function isElement(node: Node): node is Element {
   return node.nodeType === _Node.ELEMENT_NODE
 }
 
+function isOrderedList(element: Element): element is HTMLOListElement {
+  return element.tagName === 'OL'
+}
+
+function isMathScript(element: Element | null): element is HTMLScriptElement {
+  return (
+    element?.tagName === 'SCRIPT' &&
+    /^math\/tex\b/.test((element as HTMLScriptElement).type)
+  )
+}
+
 function isSlotElement(element: Element): element is HTMLSlotElement {
   return element.tagName === 'SLOT'
 }
@@ -466,13 +1343,59 @@ function isElementVisible(element: Element) {
   return true
 }
 
-function isInlineMarkdown(node: MarkdownNode) {
-  return (
-    node.type === 'text' ||
-    node.type === 'link' ||
-    node.type === 'bold' ||
-    node.type === 'italic' ||
-    node.type === 'strikethrough' ||
-    (node.type === 'code' && node.inline)
-  )
+/**
+ * Set the source of a node and its descendants, stopping at nodes that
+ * already have one. Shared nodes (which are frozen) are skipped.
+ */
+function addNodeSource(node: SemanticMarkdownAST.AnyNode, element: Element) {
+  if (node.source || Object.isFrozen(node)) {
+    return
+  }
+  node.source = createNodeSource(element)
+  switch (node.type) {
+    case 'bold':
+    case 'italic':
+    case 'strikethrough':
+    case 'heading':
+    case 'tableCell':
+      if (typeof node.content !== 'string') {
+        node.content.forEach(child => addNodeSource(child, element))
+      }
+      break
+    case 'paragraph':
+    case 'inlineSemantic':
+    case 'footnoteDefinition':
+    case 'link':
+    case 'interactive':
+    case 'fieldset':
+    case 'listItem':
+    case 'definitionTerm':
+    case 'definitionDescription':
+    case 'blockquote':
+    case 'semanticHtml':
+      node.content.forEach(child => addNodeSource(child, element))
+      break
+    case 'list':
+    case 'definitionList':
+      node.items.forEach(item => addNodeSource(item, element))
+      break
+    case 'table':
+      node.rows.forEach(row => addNodeSource(row, element))
+      break
+    case 'tableRow':
+      node.cells.forEach(cell => addNodeSource(cell, element))
+      break
+  }
+}
+
+function createNodeSource(element: Element): SemanticMarkdownAST.NodeSource {
+  return {
+    element,
+    get selector() {
+      return getElementSelector(element)
+    },
+    get xpath() {
+      return getElementXPath(element)
+    },
+  }
 }
@@ -0,0 +1,164 @@
+type ImageCandidate = {
+  url: string
+  width?: number
+  density: number
+}
+
+/**
+ * Attributes that lazy-loading libraries use to hold the real source until
+ * the image is scrolled into view.
+ */
+const lazySrcAttributes = [
+  'data-src',
+  'data-lazy-src',
+  'data-original',
+  'data-lazy',
+  'data-url',
+]
+const lazySrcsetAttributes = ['data-srcset', 'data-lazy-srcset']
+
+/**
+ * Get the best source URL of an image, as written in the HTML. Candidates
+ * from `srcset` (including the `<source>` elements of a `<picture>` without
+ * a media condition) are preferred over lazy-loading attributes, which are
+ * preferred over `src`. Placeholders like data URLs and spacer GIFs are
+ * skipped when possible.
+ */
+export function resolveImageSource(image: HTMLImageElement): string {
+  const candidates = getSrcsetCandidates(image)
+  if (image.parentElement?.tagName === 'PICTURE') {
+    for (const source of Array.from(image.parentElement.children)) {
+      if (source.tagName === 'SOURCE' && !source.getAttribute('media')) {
+        candidates.push(...getSrcsetCandidates(source))
+      }
+    }
+  }
+  const best = pickCandidate(
+    candidates.filter(_ => !isPlaceholder(_.url)),
+    image.getAttribute('sizes'),
+  )
+  if (best) {
+    return best
+  }
+  for (const attribute of lazySrcAttributes) {
+    const url = image.getAttribute(attribute)?.trim()
+    if (url && !isPlaceholder(url)) {
+      return url
+    }
+  }
+  return image.getAttribute('src') ?? ''
+}
+
+/**
+ * Get the best URL of a `srcset` attribute, as written in the HTML.
+ */
+export function pickSrcsetUrl(element: Element): string | undefined {
+  return pickCandidate(
+    getSrcsetCandidates(element),
+    element.getAttribute('sizes'),
+  )
+}
+
+/**
+ * Get the `alt` text of an image, falling back to its `aria-label` or the
+ * caption of the figure it illustrates.
+ */
+export function getImageAlt(image: HTMLImageElement): string {
+  if (image.alt.trim()) {
+    return image.alt
+  }
+  const label = image.getAttribute('aria-label')?.trim()
+  if (label) {
+    return label
+  }
+  const figure = image.closest('figure')
+  if (figure?.querySelectorAll('img').length === 1) {
+    const caption = figure.querySelector('figcaption')?.textContent
+    if (caption?.trim()) {
+      return caption.replace(/\s+/g, ' ').trim()
+    }
+  }
+  return image.alt
+}
+
+function getSrcsetCandidates(element: Element) {
+  const candidates: ImageCandidate[] = []
+  for (const attribute of ['srcset', ...lazySrcsetAttributes]) {
+    const srcset = element.getAttribute(attribute)
+    if (srcset) {
+      candidates.push(...parseSrcset(srcset))
+    }
+  }
+  return candidates
+}
+
+function parseSrcset(srcset: string) {
+  const candidates: ImageCandidate[] = []
+  const urlPattern = /[\s,]*(\S+)/y
+  let match: RegExpExecArray | null
+  while ((match = urlPattern.exec(srcset))) {
+    let url = match[1]
+    let descriptor = ''
+    if (url.endsWith(',')) {
+      url = url.replace(/,+$/, '')
+    } else {
+      // Data URLs have commas, so only the text after the URL is split.
+      const end = srcset.indexOf(',', urlPattern.lastIndex)
+      descriptor = srcset
+        .slice(urlPattern.lastIndex, end === -1 ? undefined : end)
+        .trim()
+      urlPattern.lastIndex = end === -1 ? srcset.length : end + 1
+    }
+    const value = Number.parseFloat(descriptor)
+    if (descriptor.endsWith('w') && value > 0) {
+      candidates.push({ url, width: value, density: 1 })
+    } else {
+      candidates.push({
+        url,
+        density: descriptor.endsWith('x') && value > 0 ? value : 1,
+      })
+    }
+  }
+  return candidates
+}
+
+/**
+ * Pick the smallest candidate that fills the slot width given by `sizes`
+ * (when it's a pixel length), or else the largest candidate.
+ */
+function pickCandidate(candidates: ImageCandidate[], sizes: string | null) {
+  const widths = candidates
+    .filter(_ => _.width)
+    .sort((a, b) => a.width! - b.width!)
+  if (widths.length) {
+    const slotWidth = sizes && getSlotWidth(sizes)
+    return (
+      (slotWidth && widths.find(_ => _.width! >= slotWidth)) ||
+      widths[widths.length - 1]
+    ).url
+  }
+  return candidates.reduce<ImageCandidate | undefined>(
+    (best, candidate) =>
+      !best || candidate.density > best.density ? candidate : best,
+    undefined,
+  )?.url
+}
+
+/**
+ * Get the default slot width of a `sizes` attribute, which is its last
+ * entry, if it's in pixels.
+ */
+function getSlotWidth(sizes: string) {
+  const slotSize = sizes.split(',').pop()!.trim()
+  const match = /^(\d+(?:\.\d+)?)px$/.exec(slotSize)
+  return match ? Number.parseFloat(match[1]) : undefined
+}
+
+function isPlaceholder(url: string) {
+  return (
+    url.startsWith('data:') ||
+    /(^|\/)(blank|spacer|pixel|placeholder|transparent|lazy|loading)\.(gif|png|svg)(\?|#|$)/i.test(
+      url,
+    )
+  )
+}
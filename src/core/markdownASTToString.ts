@@ -1,29 +1,73 @@
 import { findInMarkdownAST } from '../index'
+import { isAttachedNode } from './astUtils'
 import type {
   ConversionOptions,
+  MediaLabels,
   Node,
   RenderOptions,
+  SemanticMarkdownAST,
+  SourceMapEntry,
 } from '../types/markdownTypes'
 
+type LinkReferences = {
+  /**
+   * The labels of the rendered URLs, keyed by URL and title.
+   */
+  labels: Map<string, string>
+  /**
+   * The definitions that haven't been rendered yet.
+   */
+  pending: string[]
+}
+
+/**
+ * The link references of the outermost `markdownASTToString` call, shared
+ * with nested calls (like those of `overrideNodeRenderer`).
+ */
+const linkReferencesByOptions = new WeakMap<RenderOptions, LinkReferences>()
+
 export function markdownASTToString(
   nodes: Node[],
   options?: RenderOptions,
   indentLevel = 0,
 ): string {
+  if (
+    options?.linkStyle === 'reference' &&
+    !linkReferencesByOptions.has(options)
+  ) {
+    linkReferencesByOptions.set(options, { labels: new Map(), pending: [] })
+    try {
+      const markdown = markdownASTToString(nodes, options, indentLevel)
+      return addLinkDefinitions(markdown, options)
+    } finally {
+      linkReferencesByOptions.delete(options)
+    }
+  }
+  const sourceMap = options?.sourceMap
   let markdownString = ''
-  markdownString += markdownMetaASTToString(nodes, options)
-  markdownString += markdownContentASTToString(nodes, options, indentLevel)
+  markdownString += markdownMetaASTToString(nodes, options, sourceMap)
+  const sourceMapIndex = sourceMap?.length ?? 0
+  const content = markdownContentASTToString(
+    nodes,
+    options,
+    indentLevel,
+    sourceMap,
+  )
+  shiftSourceMap(sourceMap, sourceMapIndex, content, markdownString.length)
+  markdownString += content
   return markdownString
 }
 
 function markdownMetaASTToString(
   nodes: Node[],
   options?: RenderOptions,
+  sourceMap?: SourceMapEntry[],
 ): string {
   let markdownString = ''
 
   if (options?.emitFrontMatter) {
     const node = findInMarkdownAST(nodes, _ => _.type === 'meta')
+    const entryIndex = openSourceMapEntry(sourceMap, node)
     if (node?.type === 'meta') {
       if (node.content.standard) {
         Object.entries(node.content.standard).forEach(([key, value]) => {
@@ -61,6 +105,7 @@ function markdownMetaASTToString(
     if (markdownString.length > 0) {
       markdownString = '---\n' + markdownString + '---\n\n'
     }
+    closeSourceMapEntry(sourceMap, entryIndex, markdownString, 0)
   }
 
   return markdownString
@@ -70,12 +115,29 @@ function markdownContentASTToString(
   nodes: Node[],
   options?: ConversionOptions,
   indentLevel = 0,
+  sourceMap?: SourceMapEntry[],
+  markdownString = '',
 ): string {
-  let markdownString = ''
-
   const indent = ' '.repeat(indentLevel * 2) // Adjust the multiplier for different indent sizes
 
-  nodes.forEach(node => {
+  // Breaks start on a new line at the current indentation.
+  const addBreak = (content: string) => {
+    if (getLastLine(markdownString).length === 0) {
+      markdownString += indent
+    }
+    markdownString += content
+  }
+
+  nodes.forEach((node, index) => {
+    if (
+      node.type === 'heading' &&
+      options?.linkReferencePlacement === 'section'
+    ) {
+      markdownString = addLinkDefinitions(markdownString, options)
+    }
+    const start = markdownString.length
+    const entryIndex = openSourceMapEntry(sourceMap, node)
+
     const nodeRenderingOverride = options?.overrideNodeRenderer?.(
       node,
       options,
@@ -89,13 +151,17 @@ function markdownContentASTToString(
         case 'bold':
         case 'italic':
         case 'strikethrough':
-        case 'link': {
+        case 'inlineSemantic':
+        case 'link':
+        case 'interactive': {
           let content = node.content as string // might be a nodes array but we take care of that below
+          const contentIndex = sourceMap?.length ?? 0
           if (Array.isArray(node.content)) {
             content = markdownContentASTToString(
               node.content,
               options,
               indentLevel,
+              sourceMap,
             )
           }
 
@@ -106,10 +172,14 @@ function markdownContentASTToString(
           )
           const isContentPunctuation =
             content.length === 1 && /^[.,!?;:]/.test(content)
+          // Superscripts and subscripts are attached to the text around them.
+          const isAttached =
+            isAttachedNode(node) || isAttachedNode(nodes[index - 1])
 
           if (
             isMarkdownStringNotEmpty &&
             !isContentPunctuation &&
+            !isAttached &&
             !isFirstCharOfContentWhitespace &&
             !isLastCharOfMarkdownWhitespace
           ) {
@@ -121,74 +191,275 @@ function markdownContentASTToString(
             if (currentLine.length === 0) {
               markdownString += indent
             }
+            if (!currentLine.trim()) {
+              content = escapeListMarker(content)
+            }
             markdownString += content
           } else {
+            let prefix = ''
+            let suffix = ''
             if (node.type === 'bold') {
-              markdownString += `**${content}**`
+              prefix = suffix = '**'
             } else if (node.type === 'italic') {
-              markdownString += `*${content}*`
+              prefix = suffix = '*'
             } else if (node.type === 'strikethrough') {
-              markdownString += `~~${content}~~`
+              prefix = suffix = '~~'
             } else if (node.type === 'link') {
+              // Indexed links point to their element ID instead
+              const href = node.elementId
+                ? `#${node.elementId}`
+                : encodeURI(node.href)
               // check if the link contains only text
               if (
                 node.content.length === 1 &&
                 node.content[0].type === 'text'
               ) {
                 // use native markdown syntax for text-only links
-                markdownString += `[${content}](${encodeURI(node.href)})`
+                const label = !node.elementId && getLinkReference(options, href)
+                prefix = '['
+                suffix = label ? `][${label}]` : `](${href})`
               } else {
                 // Use HTML <a> tag for links with rich content
-                markdownString += `<a href="${node.href}">${content}</a>`
+                prefix = `<a href="${node.elementId ? href : node.href}">`
+                suffix = '</a>'
               }
+            } else if (node.type === 'interactive') {
+              prefix = '['
+              suffix = `](#${node.elementId})`
+            } else if (node.type === 'inlineSemantic') {
+              ;[prefix, suffix] = getInlineSemanticAffixes(
+                node,
+                content,
+                options,
+              )
             }
+            markdownString += prefix
+            shiftSourceMap(
+              sourceMap,
+              contentIndex,
+              content,
+              markdownString.length,
+            )
+            markdownString += content + suffix
           }
           break
         }
+        case 'paragraph':
+          // Paragraph content is rendered as if it were inline with the
+          // surrounding content.
+          markdownString = markdownContentASTToString(
+            node.content,
+            options,
+            indentLevel,
+            sourceMap,
+            markdownString,
+          )
+          addBreak('\n\n')
+          break
+        case 'lineBreak':
+          addBreak('\n')
+          break
+        case 'thematicBreak':
+          if (nodes[index - 1]?.type !== 'paragraph') {
+            addBreak('\n\n')
+          }
+          addBreak('---\n\n')
+          break
+        case 'footnoteReference':
+          // References are attached to the preceding text.
+          markdownString += `[^${node.label}]`
+          break
+        case 'footnoteDefinition': {
+          if (markdownString && markdownString.slice(-1) !== '\n') {
+            markdownString += '\n'
+          }
+          if (
+            markdownString &&
+            !markdownString.endsWith('\n\n') &&
+            nodes[index - 1]?.type !== 'footnoteDefinition'
+          ) {
+            markdownString += '\n'
+          }
+          const contentIndex = sourceMap?.length ?? 0
+          const content = markdownContentASTToString(
+            node.content,
+            options,
+            0,
+            sourceMap,
+          )
+          markdownString += `[^${node.label}]: `
+          shiftSourceMap(
+            sourceMap,
+            contentIndex,
+            content,
+            markdownString.length,
+            true,
+          )
+          // Continuation lines are indented by 4 spaces.
+          markdownString += `${indentContinuationLines(
+            content.trim(),
+            '    ',
+            sourceMap,
+            contentIndex,
+            markdownString.length,
+          )}\n`
+          break
+        }
+        case 'formControl':
+          // Form controls are rendered one per line.
+          if (markdownString && markdownString.slice(-1) !== '\n') {
+            markdownString += '\n'
+          }
+          addBreak(`${formControlToString(node)}\n`)
+          break
+        case 'fieldset':
+          if (markdownString && markdownString.slice(-1) !== '\n') {
+            markdownString += '\n'
+          }
+          if (node.legend) {
+            addBreak(`**${node.legend}**\n`)
+          }
+          markdownString = markdownContentASTToString(
+            node.content,
+            options,
+            indentLevel,
+            sourceMap,
+            markdownString,
+          )
+          if (markdownString.slice(-1) !== '\n') {
+            markdownString += '\n'
+          }
+          markdownString += '\n'
+          break
         case 'heading': {
           const isEndsWithNewLine = markdownString.slice(-1) === '\n'
           if (!isEndsWithNewLine) {
             markdownString += '\n'
           }
+          const contentIndex = sourceMap?.length ?? 0
           const headingContent =
             typeof node.content === 'string'
               ? node.content
-              : markdownContentASTToString(node.content, options, indentLevel)
-          markdownString += `${'#'.repeat(node.level)} ${headingContent}\n\n`
+              : markdownContentASTToString(
+                  node.content,
+                  options,
+                  indentLevel,
+                  sourceMap,
+                )
+          markdownString += `${'#'.repeat(node.level)} `
+          shiftSourceMap(
+            sourceMap,
+            contentIndex,
+            headingContent,
+            markdownString.length,
+          )
+          markdownString += `${headingContent}\n\n`
           break
         }
         case 'image':
           if (!node.alt?.trim() || !!node.src?.trim()) {
-            markdownString += `![${node.alt || ''}](${node.src})`
+            const label =
+              node.src !== '-' &&
+              getLinkReference(options, node.src, node.title)
+            if (label) {
+              markdownString += `![${node.alt || ''}][${label}]`
+            } else {
+              markdownString += `![${node.alt || ''}](${node.src}${formatLinkTitle(node.title)})`
+            }
           }
           break
-        case 'list':
+        case 'list': {
+          const start = node.start ?? (node.reversed ? node.items.length : 1)
           node.items.forEach((item, i) => {
-            const listItemPrefix = node.ordered ? `${i + 1}.` : '-'
-            const contents = markdownContentASTToString(
+            let listItemPrefix = node.ordered
+              ? `${node.reversed ? start - i : start + i}.`
+              : '-'
+            if (item.checked !== undefined) {
+              listItemPrefix += item.checked ? ' [x]' : ' [ ]'
+            }
+            // Continued items are aligned with the content of their marker.
+            if (item.continued) {
+              listItemPrefix = ' '.repeat(listItemPrefix.length)
+            }
+            const itemIndex = openSourceMapEntry(sourceMap, item)
+            const renderedContents = markdownContentASTToString(
               item.content,
               options,
               indentLevel + 1,
-            ).trim()
+              sourceMap,
+            )
+            const contents = renderedContents.trim()
             if (markdownString.slice(-1) !== '\n') {
               markdownString += '\n'
             }
+            const itemStart = markdownString.length
             if (contents) {
-              markdownString += `${indent}${listItemPrefix} ${contents}\n`
+              markdownString += `${indent}${listItemPrefix} `
+              shiftSourceMap(
+                sourceMap,
+                itemIndex + 1,
+                renderedContents,
+                markdownString.length,
+                true,
+              )
+              markdownString += `${contents}\n`
             }
+            closeSourceMapEntry(sourceMap, itemIndex, markdownString, itemStart)
           })
           markdownString += '\n'
           break
-        case 'video':
-          markdownString += `\n![Video](${node.src})\n`
-          if (node.poster) {
-            markdownString += `![Poster](${node.poster})\n`
-          }
-          if (node.controls) {
-            markdownString += `Controls: ${node.controls}\n`
-          }
+        }
+        case 'definitionList':
+          // Terms are followed by their descriptions, which start with a
+          // colon, and groups are separated by blank lines.
+          node.items.forEach((item, i) => {
+            const itemIndex = openSourceMapEntry(sourceMap, item)
+            const renderedContents = markdownContentASTToString(
+              item.content,
+              options,
+              indentLevel + 1,
+              sourceMap,
+            )
+            const contents = renderedContents.trim()
+            if (markdownString && markdownString.slice(-1) !== '\n') {
+              markdownString += '\n'
+            }
+            if (
+              item.type === 'definitionTerm' &&
+              node.items[i - 1]?.type === 'definitionDescription'
+            ) {
+              markdownString += '\n'
+            }
+            const itemStart = markdownString.length
+            if (contents) {
+              markdownString += indent
+              if (item.type === 'definitionDescription') {
+                markdownString += ': '
+              }
+              shiftSourceMap(
+                sourceMap,
+                itemIndex + 1,
+                renderedContents,
+                markdownString.length,
+                true,
+              )
+              markdownString += `${contents}\n`
+            }
+            closeSourceMapEntry(sourceMap, itemIndex, markdownString, itemStart)
+          })
           markdownString += '\n'
           break
+        case 'video':
+        case 'audio':
+          markdownString += `\n${mediaToString(node, options)}\n`
+          break
+        case 'embed': {
+          const label = getMediaLabel('embed', options)
+          const details = node.mimeType ? ` (${node.mimeType})` : ''
+          const title = node.title ? `: ${node.title}` : ''
+          markdownString += `\n[${label}${title}${details}](${node.src})\n\n`
+          break
+        }
         case 'table': {
           const maxColumns = Math.max(
             ...node.rows.map(row =>
@@ -197,16 +468,21 @@ function markdownContentASTToString(
           )
 
           node.rows.forEach(row => {
+            const rowStart = markdownString.length
+            const rowIndex = openSourceMapEntry(sourceMap, row)
             let currentColumn = 0
             row.cells.forEach(cell => {
-              let cellContent =
+              const cellIndex = openSourceMapEntry(sourceMap, cell)
+              const renderedContent =
                 typeof cell.content === 'string'
                   ? cell.content
                   : markdownContentASTToString(
                       cell.content,
                       options,
                       indentLevel + 1,
-                    ).trim()
+                      sourceMap,
+                    )
+              let cellContent = renderedContent.trim()
 
               if (cell.colId) {
                 cellContent += ` <!-- ${cell.colId} -->`
@@ -220,7 +496,22 @@ function markdownContentASTToString(
                 cellContent += ` <!-- rowspan: ${cell.rowspan} -->`
               }
 
-              markdownString += `| ${cellContent} `
+              markdownString += '| '
+              const cellStart = markdownString.length
+              shiftSourceMap(
+                sourceMap,
+                cellIndex + 1,
+                renderedContent,
+                cellStart,
+                true,
+              )
+              markdownString += `${cellContent} `
+              closeSourceMapEntry(
+                sourceMap,
+                cellIndex,
+                markdownString,
+                cellStart,
+              )
               currentColumn += cell.colspan || 1
 
               // Add empty cells for colspan
@@ -236,6 +527,7 @@ function markdownContentASTToString(
             }
 
             markdownString += '|\n'
+            closeSourceMapEntry(sourceMap, rowIndex, markdownString, rowStart)
           })
           markdownString += '\n'
           break
@@ -254,17 +546,63 @@ function markdownContentASTToString(
             markdownString += '```\n\n'
           }
           break
-        case 'blockquote':
-          markdownString += `> ${markdownContentASTToString(node.content, options).trim()}\n\n`
+        case 'math':
+          if (node.inline) {
+            const isLastWhitespace = /\s/.test(markdownString.slice(-1))
+            if (markdownString && !isLastWhitespace) {
+              markdownString += ' '
+            }
+            markdownString += `$${node.content}$`
+          } else {
+            if (markdownString && markdownString.slice(-1) !== '\n') {
+              markdownString += '\n'
+            }
+            markdownString += `$$\n${node.content}\n$$\n\n`
+          }
+          break
+        case 'blockquote': {
+          const contentIndex = sourceMap?.length ?? 0
+          const content = markdownContentASTToString(
+            node.content,
+            options,
+            0,
+            sourceMap,
+          )
+          markdownString += '> '
+          shiftSourceMap(
+            sourceMap,
+            contentIndex,
+            content,
+            markdownString.length,
+            true,
+          )
+          markdownString += `${content.trim()}\n\n`
           break
+        }
         case 'meta':
           // already handled
           break
-        case 'semanticHtml':
+        case 'semanticHtml': {
+          const contentIndex = sourceMap?.length ?? 0
+          const content = markdownContentASTToString(
+            node.content,
+            options,
+            0,
+            sourceMap,
+          )
+          const embedContent = () => {
+            shiftSourceMap(
+              sourceMap,
+              contentIndex,
+              content,
+              markdownString.length,
+            )
+            markdownString += content
+          }
           switch (node.htmlType) {
             case 'article':
-              markdownString +=
-                '\n\n' + markdownContentASTToString(node.content, options)
+              markdownString += '\n\n'
+              embedContent()
               break
             case 'summary':
             case 'time':
@@ -277,22 +615,23 @@ function markdownContentASTToString(
             case 'footer':
             case 'details':
             case 'figure':
-              markdownString +=
-                `\n\n<-${node.htmlType}->\n` +
-                markdownContentASTToString(node.content, options) +
-                `\n\n</-${node.htmlType}->\n`
+              markdownString += `\n\n<-${node.htmlType}->\n`
+              embedContent()
+              markdownString += `\n\n</-${node.htmlType}->\n`
               break
             case 'section':
+              // After inline content, a rule must start its own block.
+              if (markdownString && !markdownString.endsWith('\n')) {
+                markdownString += '\n\n'
+              }
               markdownString += '---\n\n'
-              markdownString += markdownContentASTToString(
-                node.content,
-                options,
-              )
+              embedContent()
               markdownString += '\n\n'
               markdownString += '---\n\n'
               break
           }
           break
+        }
         case 'custom': {
           const customNodeRendering = options?.renderCustomNode?.(
             node,
@@ -308,12 +647,328 @@ function markdownContentASTToString(
           break
       }
     }
+
+    closeSourceMapEntry(sourceMap, entryIndex, markdownString, start)
+  })
+
+  return markdownString
+}
+
+/**
+ * Indent every line but the first, moving the source map entries added since
+ * `entryIndex` (relative to `offset`) along with their content.
+ */
+function indentContinuationLines(
+  text: string,
+  indent: string,
+  sourceMap: SourceMapEntry[] | undefined,
+  entryIndex: number,
+  offset: number,
+) {
+  const insertions: number[] = []
+  const indented = text.replace(/\n(?=[^\n])/g, (_, position: number) => {
+    insertions.push(position + 1)
+    return `\n${indent}`
   })
+  if (sourceMap) {
+    const shift = (position: number, inclusive: boolean) =>
+      position +
+      indent.length *
+        insertions.filter(insertion =>
+          inclusive
+            ? insertion <= position - offset
+            : insertion < position - offset,
+        ).length
+    for (let i = entryIndex; i < sourceMap.length; i++) {
+      sourceMap[i].start = shift(sourceMap[i].start, true)
+      sourceMap[i].end = shift(sourceMap[i].end, false)
+    }
+  }
+  return indented
+}
+
+/**
+ * Get the text around the content of an inline semantic node, according to
+ * the `inlineSemanticRendering` option.
+ */
+function getInlineSemanticAffixes(
+  node: SemanticMarkdownAST.InlineSemanticNode,
+  content: string,
+  options: RenderOptions | undefined,
+): [prefix: string, suffix: string] {
+  const rendering = options?.inlineSemanticRendering
+  const mode =
+    (typeof rendering === 'object' ? rendering[node.htmlType] : rendering) ??
+    'html'
+
+  if (mode === 'html') {
+    const attributes = node.title
+      ? ` title="${node.title.replace(/"/g, '&quot;')}"`
+      : ''
+    const annotation = node.annotation ? `<rt>${node.annotation}</rt>` : ''
+    return [
+      `<${node.htmlType}${attributes}>`,
+      `${annotation}</${node.htmlType}>`,
+    ]
+  }
+
+  switch (node.htmlType) {
+    case 'sup':
+    case 'sub': {
+      if (mode === 'markdown') {
+        const marker = node.htmlType === 'sup' ? '^' : '~'
+        return [marker, marker]
+      }
+      // Content other than a single word is wrapped in parentheses.
+      const marker = node.htmlType === 'sup' ? '^' : '_'
+      return /^\w+$/.test(content) ? [marker, ''] : [`${marker}(`, ')']
+    }
+    case 'ins':
+    case 'u':
+      return mode === 'markdown' ? ['++', '++'] : ['', '']
+    case 'kbd':
+      return mode === 'markdown' ? ['`', '`'] : ['', '']
+    case 'cite':
+      return mode === 'markdown' ? ['*', '*'] : ['', '']
+    case 'q':
+      return ['“', '”']
+    case 'abbr':
+      return ['', node.title ? ` (${node.title})` : '']
+    case 'ruby':
+      return ['', node.annotation ? `(${node.annotation})` : '']
+  }
+  return ['', '']
+}
+
+function formatLinkTitle(title: string | undefined) {
+  return title ? ` "${title.replace(/"/g, '\\"')}"` : ''
+}
+
+/**
+ * Get the label of a reference-style link to a URL, adding its definition
+ * if it's new. Returns undefined when links are rendered inline.
+ */
+function getLinkReference(
+  options: RenderOptions | undefined,
+  url: string,
+  title?: string,
+) {
+  const references = options && linkReferencesByOptions.get(options)
+  if (!references) {
+    return
+  }
+  const key = `${url}\n${title ?? ''}`
+  let label = references.labels.get(key)
+  if (!label) {
+    label = String(references.labels.size + 1)
+    references.labels.set(key, label)
+    const destination = /[\s<>]/.test(url) ? `<${url}>` : url
+    references.pending.push(
+      `[${label}]: ${destination}${formatLinkTitle(title)}`,
+    )
+  }
+  return label
+}
+
+/**
+ * Append the link reference definitions that haven't been rendered yet,
+ * after a blank line.
+ */
+function addLinkDefinitions(markdownString: string, options: RenderOptions) {
+  const references = linkReferencesByOptions.get(options)
+  if (!references?.pending.length) {
+    return markdownString
+  }
+  if (markdownString && !markdownString.endsWith('\n\n')) {
+    markdownString += markdownString.endsWith('\n') ? '\n' : '\n\n'
+  }
+  markdownString += `${references.pending.join('\n')}\n\n`
+  references.pending = []
+  return markdownString
+}
+
+const defaultMediaLabels: MediaLabels = {
+  video: 'Video',
+  audio: 'Audio',
+  poster: 'Poster',
+  controls: 'Controls',
+  embed: 'Embed',
+  track: 'Track',
+}
 
+function getMediaLabel(key: keyof MediaLabels, options?: RenderOptions) {
+  return options?.mediaLabels?.[key] ?? defaultMediaLabels[key]
+}
+
+/**
+ * Render a video or audio node as an image of its `src`, followed by its
+ * other sources, poster, tracks and controls, one per line.
+ */
+function mediaToString(
+  node: SemanticMarkdownAST.VideoNode | SemanticMarkdownAST.AudioNode,
+  options?: RenderOptions,
+) {
+  const label = getMediaLabel(node.type, options)
+  const title = node.title ? `: ${node.title}` : ''
+  let markdownString = `![${label}${title}](${node.src})\n`
+  node.sources?.forEach(source => {
+    if (source.src !== node.src) {
+      const details = [source.type, source.media].filter(Boolean).join(', ')
+      markdownString += `![${label}${details && ` (${details})`}](${source.src})\n`
+    }
+  })
+  if (node.type === 'video' && node.poster) {
+    markdownString += `![${getMediaLabel('poster', options)}](${node.poster})\n`
+  }
+  node.tracks?.forEach(track => {
+    const details = [track.kind, track.srclang].filter(Boolean).join(', ')
+    const trackLabel = track.label ? `: ${track.label}` : ''
+    markdownString += `[${getMediaLabel('track', options)} (${details})${trackLabel}](${track.src})\n`
+  })
+  if (node.controls) {
+    markdownString += `${getMediaLabel('controls', options)}: ${node.controls}\n`
+  }
   return markdownString
 }
 
+/**
+ * Render a form control as a field in brackets, with its label and a list of
+ * notes, like `Email: [me@example.com] (email, name=email, required)`.
+ */
+function formControlToString(node: SemanticMarkdownAST.FormControlNode) {
+  const field = (content: string) =>
+    `[${content}]${node.elementId ? `(#${node.elementId})` : ''}`
+
+  const notes: string[] = []
+  if (!/^(text|checkbox|button)$/.test(node.kind)) {
+    notes.push(node.kind)
+  }
+  if (node.name) {
+    notes.push(`name=${node.name}`)
+  }
+  if (node.options) {
+    notes.push(`options: ${node.options.map(_ => _.label).join(' | ')}`)
+  }
+  if (node.multiple) {
+    notes.push('multiple')
+  }
+  if (node.required) {
+    notes.push('required')
+  }
+  if (node.disabled) {
+    notes.push('disabled')
+  }
+
+  let markdown: string
+  switch (node.kind) {
+    case 'checkbox':
+    case 'radio':
+      markdown = field(node.checked ? 'x' : ' ')
+      if (node.label) {
+        markdown += ` ${node.label}`
+      }
+      break
+    case 'button':
+    case 'submit':
+    case 'reset':
+      markdown = field(node.label ?? '')
+      break
+    default: {
+      const value = node.options
+        ? node.options
+            .filter(_ => _.selected)
+            .map(_ => _.label)
+            .join(', ')
+        : node.value
+      markdown = (node.label ? `${node.label}: ` : '') + field(value ?? '')
+    }
+  }
+  return notes.length ? `${markdown} (${notes.join(', ')})` : markdown
+}
+
+/**
+ * Escape text at the start of a line that would be read as a list marker.
+ * Other marker characters are already escaped in text.
+ */
+function escapeListMarker(text: string) {
+  return text.replace(/^-(?= )/, '\\-').replace(/^(\d+)\.(?= )/, '$1\\.')
+}
+
 function getLastLine(markdownString: string) {
   const lastNewlineIndex = markdownString.lastIndexOf('\n')
   return markdownString.slice(lastNewlineIndex + 1)
 }
+
+/**
+ * Add a source map entry for a node, to be completed by
+ * `closeSourceMapEntry` once the node is rendered. Entries are added before
+ * those of their descendants.
+ */
+function openSourceMapEntry(
+  sourceMap: SourceMapEntry[] | undefined,
+  node: SemanticMarkdownAST.AnyNode | undefined,
+): number {
+  if (!sourceMap || !node) {
+    return -1
+  }
+  return (
+    sourceMap.push({ start: 0, end: 0, node, element: node.source?.element }) -
+    1
+  )
+}
+
+/**
+ * Set the range of a source map entry, excluding surrounding whitespace.
+ * Entries for nodes that rendered only whitespace are removed.
+ */
+function closeSourceMapEntry(
+  sourceMap: SourceMapEntry[] | undefined,
+  entryIndex: number,
+  markdownString: string,
+  start: number,
+) {
+  if (!sourceMap || entryIndex < 0) {
+    return
+  }
+  let end = markdownString.length
+  while (start < end && /\s/.test(markdownString[start])) {
+    start++
+  }
+  while (end > start && /\s/.test(markdownString[end - 1])) {
+    end--
+  }
+  if (start === end) {
+    sourceMap.splice(entryIndex, 1)
+  } else {
+    sourceMap[entryIndex].start = start
+    sourceMap[entryIndex].end = end
+  }
+}
+
+/**
+ * Move the entries added since `entryIndex`, which are relative to the
+ * `content` string, to where that content was inserted in the output. When
+ * `trimmed` is true, the content was inserted without surrounding whitespace.
+ */
+function shiftSourceMap(
+  sourceMap: SourceMapEntry[] | undefined,
+  entryIndex: number,
+  content: string,
+  offset: number,
+  trimmed = false,
+) {
+  if (!sourceMap) {
+    return
+  }
+  const leadingWhitespace = trimmed
+    ? content.length - content.trimStart().length
+    : 0
+  const length = trimmed ? content.trim().length : content.length
+  for (let i = entryIndex; i < sourceMap.length; i++) {
+    const entry = sourceMap[i]
+    entry.start =
+      offset + Math.min(Math.max(entry.start - leadingWhitespace, 0), length)
+    entry.end =
+      offset + Math.min(Math.max(entry.end - leadingWhitespace, 0), length)
+  }
+}
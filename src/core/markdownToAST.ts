@@ -0,0 +1,1514 @@
+import type {
+  MarkdownParseOptions,
+  Node,
+  SemanticMarkdownAST,
+} from '../types/markdownTypes'
+import { isFormControl, unescapeMarkdownCharacters } from './domUtils'
+import { markdownASTToString } from './markdownASTToString'
+
+type InlineItem = string | Node
+
+type SemanticRegionType = Exclude<
+  SemanticMarkdownAST.SemanticHtmlNode['htmlType'],
+  'article' | 'section'
+>
+
+const semanticRegionTypes: SemanticRegionType[] = [
+  'aside',
+  'details',
+  'figcaption',
+  'figure',
+  'footer',
+  'header',
+  'main',
+  'mark',
+  'nav',
+  'summary',
+  'time',
+]
+
+type InlineSemanticType = SemanticMarkdownAST.InlineSemanticNode['htmlType']
+
+const inlineSemanticTypes: InlineSemanticType[] = [
+  'abbr',
+  'cite',
+  'ins',
+  'kbd',
+  'q',
+  'ruby',
+  'small',
+  'sub',
+  'sup',
+  'u',
+]
+
+type BlockMatch = {
+  /** Where the block starts, including any newlines it emits before itself. */
+  start: number
+  end: number
+  nodes: Node[]
+}
+
+/**
+ * Parses Markdown produced by `markdownASTToString` back into a semantic
+ * Markdown AST.
+ *
+ * The parser understands the exact dialect emitted by the renderer, including
+ * front matter, `<-region->` markers, table cell comments and `<a href>`
+ * fallbacks. Anything it can't recognize is kept as text, so rendering the
+ * result reproduces the original Markdown. Audio, media details, fieldsets,
+ * definition lists and inline semantics that aren't rendered as HTML are
+ * among those, and only round-trip as text. Element IDs like
+ * `[Go](#e0)` are looked up in the `interactiveElements` option to tell
+ * links, interactive elements and form controls apart.
+ */
+export function markdownToAST(
+  markdown: string,
+  options: MarkdownParseOptions = {},
+): Node[] {
+  const nodes: Node[] = []
+  const frontMatter = parseFrontMatter(markdown)
+  if (frontMatter) {
+    nodes.push(frontMatter.node)
+    markdown = markdown.slice(frontMatter.end)
+  }
+  nodes.push(...parseBlocks(markdown, 0, options))
+  return nodes
+}
+
+function parseFrontMatter(
+  markdown: string,
+): { node: SemanticMarkdownAST.MetaDataNode; end: number } | undefined {
+  if (!markdown.startsWith('---\n') || markdown[4] === '\n') {
+    return
+  }
+  const end = markdown.indexOf('\n---\n\n', 3)
+  if (end === -1) {
+    return
+  }
+  const content: SemanticMarkdownAST.MetaDataNode['content'] =
+    Object.create(null)
+
+  let group: Record<string, string> | undefined
+  let schema: Record<string, any> | undefined
+  try {
+    for (const line of markdown.slice(4, end).split('\n')) {
+      const match = /^( *)(.+?):(?: (.*))?$/.exec(line)
+      if (!match) {
+        return
+      }
+      const [, indent, key, value] = match
+      if (indent.length === 0) {
+        group = schema = undefined
+        if (value !== undefined) {
+          content.standard ??= Object.create(null)
+          content.standard![key] = JSON.parse(value)
+        } else if (key === 'openGraph' || key === 'twitter') {
+          group = content[key] = Object.create(null)
+        } else if (key === 'schema') {
+          content.jsonLd = []
+        } else {
+          return
+        }
+      } else if (indent.length === 2 && value !== undefined && group) {
+        group[key] = JSON.parse(value)
+      } else if (indent.length === 2 && value === undefined && content.jsonLd) {
+        schema = key === '(unknown type)' ? {} : { '@type': key }
+        content.jsonLd.push(schema)
+      } else if (indent.length === 4 && value !== undefined && schema) {
+        schema[key] = JSON.parse(value)
+      } else {
+        return
+      }
+    }
+  } catch {
+    return
+  }
+
+  return {
+    node: { type: 'meta', content },
+    end: end + 6,
+  }
+}
+
+/**
+ * Parse a string rendered from a node array at the given indentation level.
+ */
+function parseBlocks(
+  source: string,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): Node[] {
+  const nodes: Node[] = []
+
+  let pos = 0
+  let runStart = 0
+  let openLinks = 0
+
+  const flushRun = (end: number) => {
+    if (end > runStart) {
+      const fresh = runStart === 0
+      const inlineNodes = parseInline(
+        source.slice(runStart, end),
+        indentLevel,
+        fresh,
+        options,
+      )
+      nodes.push(...groupParagraphs(inlineNodes, indentLevel, fresh))
+    }
+  }
+
+  while (pos < source.length) {
+    let lineEnd = source.indexOf('\n', pos)
+    if (lineEnd === -1) {
+      lineEnd = source.length
+    }
+    if (openLinks === 0) {
+      const block = matchBlock(source, pos, runStart, indentLevel, options)
+      if (block) {
+        flushRun(block.start)
+        nodes.push(...block.nodes)
+        pos = runStart = block.end
+        continue
+      }
+    }
+    const line = source.slice(pos, lineEnd)
+    openLinks += countMatches(line, '<a href="') - countMatches(line, '</a>')
+    if (openLinks < 0) {
+      openLinks = 0
+    }
+    pos = lineEnd + 1
+  }
+
+  flushRun(source.length)
+  return nodes
+}
+
+function matchBlock(
+  source: string,
+  pos: number,
+  runStart: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  const char = source[pos]
+  if (char === '#') {
+    return matchHeading(source, pos, runStart, indentLevel, options)
+  }
+  if (char === '`') {
+    return matchCodeBlock(source, pos, runStart)
+  }
+  if (char === '$') {
+    return matchMathBlock(source, pos, runStart)
+  }
+  if (char === '|') {
+    return matchTable(source, pos, indentLevel, options)
+  }
+  if (char === '>') {
+    return matchBlockquote(source, pos, options)
+  }
+  if (char === '<') {
+    return matchSemanticRegion(source, pos, runStart, options)
+  }
+  if (char === '!') {
+    return matchVideo(source, pos, runStart)
+  }
+  if (char === '[') {
+    return matchFootnoteDefinition(source, pos, options)
+  }
+  if (char === '-' && source.startsWith('---\n\n', pos)) {
+    return matchSection(source, pos, options)
+  }
+  return matchList(source, pos, runStart, indentLevel, options)
+}
+
+/**
+ * Some blocks emit a newline before themselves, but only when the output
+ * doesn't already end with one. Returns the start of such a block.
+ */
+function claimOptionalNewline(source: string, pos: number, runStart: number) {
+  if (pos > runStart && source[pos - 1] === '\n') {
+    const prevChar = pos - 2 >= runStart ? source[pos - 2] : undefined
+    if (prevChar !== undefined ? prevChar !== '\n' : runStart === 0) {
+      return pos - 1
+    }
+  }
+  return pos
+}
+
+/**
+ * Returns the start of a block that always emits `count` newlines before
+ * itself, or -1 if they're missing.
+ */
+function claimNewlines(
+  source: string,
+  pos: number,
+  runStart: number,
+  count: number,
+) {
+  for (let i = 1; i <= count; i++) {
+    if (pos - i < runStart || source[pos - i] !== '\n') {
+      return -1
+    }
+  }
+  return pos - count
+}
+
+function matchHeading(
+  source: string,
+  pos: number,
+  runStart: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  const match = /^(#{1,6}) /.exec(source.slice(pos, pos + 7))
+  if (!match) {
+    return
+  }
+  const contentStart = pos + match[0].length
+  const end = indexOrEnd(source, '\n\n', contentStart)
+  return {
+    start: claimOptionalNewline(source, pos, runStart),
+    end: end + 2,
+    nodes: [
+      {
+        type: 'heading',
+        level: match[1].length as SemanticMarkdownAST.HeadingNode['level'],
+        content: parseInline(
+          source.slice(contentStart, end),
+          indentLevel,
+          true,
+          options,
+        ),
+      },
+    ],
+  }
+}
+
+function matchCodeBlock(
+  source: string,
+  pos: number,
+  runStart: number,
+): BlockMatch | undefined {
+  const start = pos === 0 ? 0 : claimNewlines(source, pos, runStart, 1)
+  if (start === -1 || !source.startsWith('```', pos)) {
+    return
+  }
+  const infoEnd = source.indexOf('\n', pos)
+  if (infoEnd === -1) {
+    return
+  }
+  const language = source.slice(pos + 3, infoEnd)
+  if (language.includes('`')) {
+    return
+  }
+  let fenceEnd = source.indexOf('\n```\n\n', infoEnd)
+  if (fenceEnd === -1) {
+    if (!source.endsWith('\n```') || source.length - 4 < infoEnd) {
+      return
+    }
+    fenceEnd = source.length - 4
+  }
+  return {
+    start,
+    end: fenceEnd + 6,
+    nodes: [
+      {
+        type: 'code',
+        language: language || undefined,
+        content: source.slice(infoEnd + 1, fenceEnd),
+        inline: false,
+      },
+    ],
+  }
+}
+
+function matchMathBlock(
+  source: string,
+  pos: number,
+  runStart: number,
+): BlockMatch | undefined {
+  if (!source.startsWith('$$\n', pos)) {
+    return
+  }
+  let end = source.indexOf('\n$$\n\n', pos + 3)
+  if (end === -1) {
+    if (!source.endsWith('\n$$') || source.length - 3 < pos + 3) {
+      return
+    }
+    end = source.length - 3
+  }
+  return {
+    // The renderer only adds a newline before block math when needed.
+    start: claimOptionalNewline(source, pos, runStart),
+    end: end + 5,
+    nodes: [
+      { type: 'math', content: source.slice(pos + 3, end), inline: false },
+    ],
+  }
+}
+
+function matchTable(
+  source: string,
+  pos: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  const rows: SemanticMarkdownAST.TableRowNode[] = []
+  const colIds: string[] = []
+
+  let rowStart = pos
+  while (source[rowStart] === '|') {
+    // Cells may contain line breaks, so a row ends at the first line that
+    // ends with an unescaped pipe.
+    let rowEnd = rowStart
+    do {
+      rowEnd = indexOrEnd(source, '\n', rowEnd + 1)
+      if (rowEnd === source.length && source[rowEnd - 1] !== '|') {
+        return
+      }
+    } while (source[rowEnd - 1] !== '|' || source[rowEnd - 2] === '\\')
+
+    const row = parseTableRow(
+      source.slice(rowStart, rowEnd),
+      indentLevel,
+      options,
+    )
+    if (!row) {
+      return
+    }
+    for (const cell of row.cells) {
+      if (cell.colId && !colIds.includes(cell.colId)) {
+        colIds.push(cell.colId)
+      }
+    }
+    rows.push(row)
+    rowStart = rowEnd + 1
+  }
+
+  if (rowStart < source.length && source[rowStart] !== '\n') {
+    return
+  }
+  return {
+    start: pos,
+    end: rowStart + 1,
+    nodes: [{ type: 'table', rows, colIds }],
+  }
+}
+
+function parseTableRow(
+  row: string,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): SemanticMarkdownAST.TableRowNode | undefined {
+  const segments = splitTableRow(row)
+  const cells: SemanticMarkdownAST.TableCellNode[] = []
+  const isSeparatorRow = segments.every(
+    segment => segment === ' --- ' || segment === '  ',
+  )
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i]
+    if (segment.length < 2 || segment[0] !== ' ' || !segment.endsWith(' ')) {
+      return
+    }
+    const match =
+      /^([\s\S]*?)(?: <!-- (?!colspan:|rowspan:)(.+?) -->)?(?: <!-- colspan: (\d+) -->)?(?: <!-- rowspan: (\d+) -->)?$/.exec(
+        segment.slice(1, -1),
+      )!
+
+    const [, content, colId] = match
+    const colspan = match[3] ? Number(match[3]) : undefined
+    const rowspan = match[4] ? Number(match[4]) : undefined
+
+    // Cells spanning multiple columns are followed by empty placeholders.
+    if (colspan) {
+      for (let j = 1; j < colspan; j++) {
+        if (segments[++i] !== ' ') {
+          return
+        }
+      }
+    }
+
+    cells.push({
+      type: 'tableCell',
+      content: isSeparatorRow
+        ? content
+        : parseBlocks(content, indentLevel + 1, options),
+      colId,
+      colspan,
+      rowspan,
+    })
+  }
+
+  return { type: 'tableRow', cells }
+}
+
+/**
+ * Split a table row into the raw text between its pipes, skipping over
+ * escaped pipes and inline code.
+ */
+function splitTableRow(row: string): string[] {
+  const segments: string[] = []
+  let segmentStart = 1
+  for (let i = 1; i < row.length; i++) {
+    const char = row[i]
+    if (char === '\\') {
+      i++
+    } else if (char === '`') {
+      const end = row.indexOf('`', i + 1)
+      if (end !== -1) {
+        i = end
+      }
+    } else if (char === '|') {
+      segments.push(row.slice(segmentStart, i))
+      segmentStart = i + 1
+    }
+  }
+  return segments
+}
+
+function matchBlockquote(
+  source: string,
+  pos: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  if (!source.startsWith('> ', pos)) {
+    return
+  }
+  // The renderer only prefixes the first line, so a blockquote is assumed to
+  // end at the first blank line.
+  const end = indexOrEnd(source, '\n\n', pos)
+  return {
+    start: pos,
+    end: end + 2,
+    nodes: [
+      {
+        type: 'blockquote',
+        content: parseBlocks(source.slice(pos + 2, end), 0, options),
+      },
+    ],
+  }
+}
+
+function matchSemanticRegion(
+  source: string,
+  pos: number,
+  runStart: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  const match = /^<-([a-z]+)->\n/.exec(source.slice(pos, pos + 16))
+  if (!match || !semanticRegionTypes.includes(match[1] as SemanticRegionType)) {
+    return
+  }
+  const start = claimNewlines(source, pos, runStart, 2)
+  if (start === -1) {
+    return
+  }
+  const htmlType = match[1] as SemanticRegionType
+  const openTag = `\n\n<-${htmlType}->\n`
+  const closeTag = `\n\n</-${htmlType}->\n`
+  const contentStart = pos + match[0].length
+
+  // Find the matching close tag, accounting for nested regions of the same
+  // type.
+  let depth = 1
+  let cursor = contentStart
+  let contentEnd = -1
+  while (depth > 0) {
+    const nextOpen = source.indexOf(openTag, cursor)
+    const nextClose = source.indexOf(closeTag, cursor)
+    if (nextClose === -1) {
+      return
+    }
+    if (nextOpen !== -1 && nextOpen < nextClose) {
+      depth++
+      cursor = nextOpen + openTag.length
+    } else {
+      depth--
+      contentEnd = nextClose
+      cursor = nextClose + closeTag.length
+    }
+  }
+
+  return {
+    start,
+    end: cursor,
+    nodes: [
+      {
+        type: 'semanticHtml',
+        htmlType,
+        content: parseBlocks(
+          source.slice(contentStart, contentEnd),
+          0,
+          options,
+        ),
+      },
+    ],
+  }
+}
+
+function matchSection(
+  source: string,
+  pos: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  const contentStart = pos + 5
+  const contentEnd = source.indexOf('\n\n---\n\n', contentStart)
+  if (contentEnd === -1) {
+    return
+  }
+  return {
+    start: pos,
+    end: contentEnd + 7,
+    nodes: [
+      {
+        type: 'semanticHtml',
+        htmlType: 'section',
+        content: parseBlocks(
+          source.slice(contentStart, contentEnd),
+          0,
+          options,
+        ),
+      },
+    ],
+  }
+}
+
+function matchVideo(
+  source: string,
+  pos: number,
+  runStart: number,
+): BlockMatch | undefined {
+  const start = claimNewlines(source, pos, runStart, 1)
+  if (start === -1 || !/^!\[Video[\]:]/.test(source.slice(pos, pos + 8))) {
+    return
+  }
+  const lines: string[] = []
+  let cursor = pos
+  while (cursor < source.length && source[cursor] !== '\n') {
+    const lineEnd = source.indexOf('\n', cursor)
+    if (lineEnd === -1) {
+      return
+    }
+    lines.push(source.slice(cursor, lineEnd))
+    cursor = lineEnd + 1
+  }
+  if (cursor === source.length) {
+    return
+  }
+
+  const match = /^!\[Video(?:: (.*))?\]\((.*)\)$/.exec(lines.shift()!)
+  if (!match) {
+    return
+  }
+  const node: SemanticMarkdownAST.VideoNode = { type: 'video', src: match[2] }
+  if (match[1]) {
+    node.title = match[1]
+  }
+  if (lines[0]?.startsWith('![Poster](')) {
+    node.poster = /^!\[Poster\]\((.*)\)$/.exec(lines.shift()!)?.[1]
+    if (node.poster === undefined) {
+      return
+    }
+  }
+  if (lines[0] === 'Controls: true') {
+    node.controls = true
+    lines.shift()
+  }
+  if (lines.length) {
+    return
+  }
+  return { start, end: cursor + 1, nodes: [node] }
+}
+
+function matchFootnoteDefinition(
+  source: string,
+  pos: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  const labelEnd =
+    source[pos + 1] === '^' ? findClosingBracket(source, pos + 1) : -1
+  const label = source.slice(pos + 2, labelEnd)
+  if (!/^[\w-]+$/.test(label) || !source.startsWith(']: ', labelEnd)) {
+    return
+  }
+  // Continuation lines are indented by 4 spaces, and may follow blank lines.
+  const contentStart = labelEnd + 3
+  let end = indexOrEnd(source, '\n', contentStart)
+  while (end < source.length) {
+    let next = end + 1
+    while (source[next] === '\n') {
+      next++
+    }
+    if (!source.startsWith('    ', next)) {
+      break
+    }
+    end = indexOrEnd(source, '\n', next)
+  }
+  // The renderer trims the content, so the blank line ending the last of
+  // several blocks is restored.
+  let content = source.slice(contentStart, end).replace(/\n {4}/g, '\n')
+  if (content.includes('\n\n')) {
+    content += '\n\n'
+  }
+  return {
+    start: pos,
+    end: end + 1,
+    nodes: [
+      {
+        type: 'footnoteDefinition',
+        label,
+        content: parseBlocks(content, 0, options),
+      },
+    ],
+  }
+}
+
+function matchList(
+  source: string,
+  pos: number,
+  runStart: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): BlockMatch | undefined {
+  const indent = ' '.repeat(indentLevel * 2)
+  const contentIndent = indent + '  '
+  const markerRegex = new RegExp(`^${indent}(-|\\d+\\.) `)
+
+  const firstMarker = markerRegex.exec(source.slice(pos, pos + 40))
+  if (!firstMarker) {
+    return
+  }
+  const ordered = firstMarker[1] !== '-'
+  const start = ordered ? Number.parseInt(firstMarker[1]) : 1
+  let reversed: boolean | undefined
+
+  const items: SemanticMarkdownAST.ListItemNode[] = []
+  let cursor = pos
+
+  while (true) {
+    const marker = markerRegex.exec(source.slice(cursor, cursor + 40))
+    if (!marker || (marker[1] !== '-') !== ordered) {
+      break
+    }
+    if (ordered) {
+      // Items with empty content are skipped by the renderer, but they still
+      // take up a number.
+      const number = Number.parseInt(marker[1])
+      if (items.length && reversed === undefined) {
+        reversed = number < start
+      }
+      const position = reversed ? start - number : number - start
+      if (position < items.length) {
+        break
+      }
+      while (items.length < position) {
+        items.push({ type: 'listItem', content: [] })
+      }
+    }
+
+    // Collect the item's content, which continues until the next sibling
+    // marker or a blank line that isn't followed by indented content.
+    let contentStart = cursor + marker[0].length
+    const taskMarker = /^\[( |x)\] /.exec(
+      source.slice(contentStart, contentStart + 4),
+    )
+    if (taskMarker) {
+      contentStart += taskMarker[0].length
+    }
+    let lineEnd = source.indexOf('\n', contentStart)
+    if (lineEnd === -1) {
+      return
+    }
+    while (true) {
+      let next = lineEnd + 1
+      while (source[next] === '\n') {
+        next++
+      }
+      if (next >= source.length) {
+        break
+      }
+      const nextLine = source.slice(next, next + 40)
+      if (markerRegex.test(nextLine)) {
+        break
+      }
+      if (next > lineEnd + 1 && !nextLine.startsWith(contentIndent)) {
+        break
+      }
+      lineEnd = source.indexOf('\n', next)
+      if (lineEnd === -1) {
+        return
+      }
+    }
+
+    const item: SemanticMarkdownAST.ListItemNode = {
+      type: 'listItem',
+      content: parseBlocks(
+        source.slice(contentStart, lineEnd),
+        indentLevel + 1,
+        options,
+      ),
+    }
+    if (taskMarker) {
+      item.checked = taskMarker[1] === 'x'
+    }
+    items.push(item)
+    cursor = lineEnd + 1
+  }
+
+  // Every list ends with a blank line.
+  if (!items.length || source[cursor] !== '\n') {
+    return
+  }
+  const list: SemanticMarkdownAST.ListNode = { type: 'list', ordered, items }
+  if (ordered && (start !== 1 || reversed)) {
+    list.start = start
+  }
+  if (reversed) {
+    list.reversed = true
+  }
+  return {
+    start: claimOptionalNewline(source, pos, runStart),
+    end: cursor + 1,
+    nodes: [list],
+  }
+}
+
+/**
+ * Parse inline content rendered at the given indentation level. When `fresh`
+ * is true, the content was rendered into an empty string.
+ */
+function parseInline(
+  source: string,
+  indentLevel: number,
+  fresh: boolean,
+  options: MarkdownParseOptions,
+): Node[] {
+  const items = scanInline(source, 0, indentLevel, options)!.items
+  return assembleInline(items, indentLevel, fresh)
+}
+
+/**
+ * Scan inline content until the `closer` is found. Returns undefined if a
+ * closer was given but not found.
+ */
+function scanInline(
+  source: string,
+  pos: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+  closer?: string,
+): { items: InlineItem[]; end: number } | undefined {
+  const items: InlineItem[] = []
+  let text = ''
+
+  const flushText = () => {
+    if (text) {
+      items.push(text)
+      text = ''
+    }
+  }
+
+  while (pos < source.length) {
+    // Form controls are rendered on lines of their own.
+    if (!closer && (pos === 0 || source[pos - 1] === '\n')) {
+      const control = matchFormControl(source, pos, indentLevel, options)
+      if (control) {
+        flushText()
+        items.push(control.node)
+        pos = control.end
+        continue
+      }
+    }
+    const char = source[pos]
+    if (char === '\\') {
+      text += source.slice(pos, pos + 2)
+      pos += 2
+      continue
+    }
+    const isEmpty = !text && !items.length
+    if (closer && !isEmpty && source.startsWith(closer, pos)) {
+      // Prefer opening bold over closing italic when both are possible.
+      if (closer !== '*' || source[pos + 1] !== '*') {
+        flushText()
+        return { items, end: pos + closer.length }
+      }
+      const bold = matchEmphasis(source, pos, indentLevel, options, '**')
+      if (!bold) {
+        flushText()
+        return { items, end: pos + closer.length }
+      }
+      flushText()
+      items.push(bold.node)
+      pos = bold.end
+      continue
+    }
+    const match = matchInline(source, pos, indentLevel, options, closer)
+    if (match) {
+      flushText()
+      items.push(match.node)
+      pos = match.end
+      continue
+    }
+    text += char
+    pos++
+  }
+
+  if (closer) {
+    return
+  }
+  flushText()
+  return { items, end: pos }
+}
+
+function matchInline(
+  source: string,
+  pos: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+  closer: string | undefined,
+): { node: Node; end: number } | undefined {
+  switch (source[pos]) {
+    case '*':
+      if (source[pos + 1] === '*' && closer !== '**') {
+        const bold = matchEmphasis(source, pos, indentLevel, options, '**')
+        if (bold) {
+          return bold
+        }
+      }
+      if (closer !== '*') {
+        return matchEmphasis(source, pos, indentLevel, options, '*')
+      }
+      return
+    case '~':
+      if (source[pos + 1] === '~' && closer !== '~~') {
+        return matchEmphasis(source, pos, indentLevel, options, '~~')
+      }
+      return
+    case '`': {
+      const end = source.indexOf('`', pos + 1)
+      if (end === -1) {
+        return
+      }
+      return {
+        node: {
+          type: 'code',
+          content: source.slice(pos + 1, end),
+          inline: true,
+        },
+        end: end + 1,
+      }
+    }
+    case '$': {
+      // Dollar signs aren't escaped in text, so inline math must follow
+      // whitespace, and can't start or end with a space or precede a digit.
+      if (pos > 0 && !/\s/.test(source[pos - 1])) {
+        return
+      }
+      const match = /^\$([^\s$](?:[^$\n]*[^\s$])?)\$(?!\d)/.exec(
+        source.slice(pos, indexOrEnd(source, '\n', pos)),
+      )
+      if (!match) {
+        return
+      }
+      return {
+        node: { type: 'math', content: match[1], inline: true },
+        end: pos + match[0].length,
+      }
+    }
+    case '!':
+      if (source[pos + 1] === '[') {
+        const altEnd = findClosingBracket(source, pos + 2)
+        if (altEnd !== -1 && source[altEnd + 1] === '(') {
+          const srcEnd = findClosingParen(source, altEnd + 2)
+          if (srcEnd !== -1) {
+            const node: SemanticMarkdownAST.ImageNode = {
+              type: 'image',
+              src: source.slice(altEnd + 2, srcEnd),
+              alt: source.slice(pos + 2, altEnd),
+            }
+            const title = /^(\S*) "((?:[^"\\]|\\.)*)"$/.exec(node.src)
+            if (title) {
+              node.src = title[1]
+              node.title = title[2].replace(/\\"/g, '"')
+            }
+            return { node, end: srcEnd + 1 }
+          }
+        }
+      }
+      return
+    case '[': {
+      const contentEnd = findClosingBracket(source, pos + 1)
+      if (source[pos + 1] === '^' && source[contentEnd + 1] !== '(') {
+        const label = source.slice(pos + 2, contentEnd)
+        if (contentEnd !== -1 && /^[\w-]+$/.test(label)) {
+          return {
+            node: { type: 'footnoteReference', label },
+            end: contentEnd + 1,
+          }
+        }
+      }
+      if (contentEnd !== -1 && source[contentEnd + 1] === '(') {
+        const hrefEnd = findClosingParen(source, contentEnd + 2)
+        if (hrefEnd !== -1) {
+          const href = source.slice(contentEnd + 2, hrefEnd)
+          const content = source.slice(pos + 1, contentEnd)
+          const element = getIndexedElement(href, options)
+          if (element && element.tagName !== 'A' && !isFormControl(element)) {
+            return {
+              node: {
+                type: 'interactive',
+                elementId: href.slice(1),
+                role:
+                  element.getAttribute('role') || element.tagName.toLowerCase(),
+                content: parseInline(content, indentLevel, true, options),
+              },
+              end: hrefEnd + 1,
+            }
+          }
+          return {
+            node: toLink(
+              safeDecodeURI(href),
+              assembleInline([content], indentLevel, true),
+              element,
+            ),
+            end: hrefEnd + 1,
+          }
+        }
+      }
+      return
+    }
+    case '<':
+      return (
+        matchHtmlLink(source, pos, indentLevel, options) ??
+        matchInlineSemantic(source, pos, indentLevel, options)
+      )
+  }
+}
+
+function matchEmphasis(
+  source: string,
+  pos: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+  marker: '**' | '*' | '~~',
+): { node: Node; end: number } | undefined {
+  const inner = scanInline(
+    source,
+    pos + marker.length,
+    indentLevel,
+    options,
+    marker,
+  )
+  if (!inner) {
+    return
+  }
+  const type =
+    marker === '**' ? 'bold' : marker === '*' ? 'italic' : 'strikethrough'
+  return {
+    node: {
+      type,
+      content: assembleInline(inner.items, indentLevel, true),
+    },
+    end: inner.end,
+  }
+}
+
+function matchHtmlLink(
+  source: string,
+  pos: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): { node: Node; end: number } | undefined {
+  const match = /^<a href="([^"]*)">/.exec(source.slice(pos))
+  if (!match) {
+    return
+  }
+  const contentStart = pos + match[0].length
+
+  let depth = 1
+  let cursor = contentStart
+  while (depth > 0) {
+    const nextOpen = source.indexOf('<a href="', cursor)
+    const nextClose = source.indexOf('</a>', cursor)
+    if (nextClose === -1) {
+      return
+    }
+    if (nextOpen !== -1 && nextOpen < nextClose) {
+      depth++
+      cursor = nextOpen + 9
+    } else {
+      depth--
+      cursor = nextClose + 4
+    }
+  }
+
+  const content = parseBlocks(
+    source.slice(contentStart, cursor - 4),
+    indentLevel,
+    options,
+  )
+
+  // The renderer only uses the <a> syntax when the content isn't a single
+  // text node, so split it to preserve the syntax.
+  if (content.length === 1 && content[0].type === 'text') {
+    const text = content[0].content
+    const splitIndex = text.search(/\s/)
+    content.splice(
+      0,
+      1,
+      {
+        type: 'text',
+        content: splitIndex > 0 ? text.slice(0, splitIndex) : '',
+      },
+      { type: 'text', content: splitIndex > 0 ? text.slice(splitIndex) : text },
+    )
+  }
+
+  return {
+    node: toLink(match[1], content, getIndexedElement(match[1], options)),
+    end: cursor,
+  }
+}
+
+function matchFormControl(
+  source: string,
+  pos: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): { node: Node; end: number } | undefined {
+  const indent = ' '.repeat(indentLevel * 2)
+  const lineStart = source.startsWith(indent, pos) ? pos + indent.length : pos
+  const lineEnd = indexOrEnd(source, '\n', lineStart)
+  const node = parseFormControl(source.slice(lineStart, lineEnd), options)
+  if (!node) {
+    return
+  }
+  return { node, end: Math.min(lineEnd + 1, source.length) }
+}
+
+/**
+ * Parse a line like `Email: [me@example.com] (email, name=email)`. The
+ * values of select options aren't rendered, so their labels are used.
+ */
+function parseFormControl(
+  line: string,
+  options: MarkdownParseOptions,
+): SemanticMarkdownAST.FormControlNode | undefined {
+  const match =
+    /^(?:(.+?): )?\[((?:[^\\\]]|\\.)*)\](?:\((#e\d+)\))?(?: (.*?))??(?: \((.*)\))?$/.exec(
+      line,
+    )
+  if (!match) {
+    return
+  }
+  const [, label, field, href, text, notes = ''] = match
+  const element = href ? getIndexedElement(href, options) : undefined
+  if (href && !(element && isFormControl(element))) {
+    return
+  }
+  const notesMatch =
+    /^(?:(?!(?:multiple|required|disabled)(?:,|$))([\w-]+)(?=, |$))?(?:(?:^|, )name=(.*?))?(?:(?:^|, )options: (.*?))?(?:(?:^|, )(multiple))?(?:(?:^|, )(required))?(?:(?:^|, )(disabled))?$/.exec(
+      notes,
+    )
+  if (!notesMatch) {
+    return
+  }
+  const [, kindNote, name, optionLabels, multiple, required, disabled] =
+    notesMatch
+
+  // Text fields, checkboxes and buttons have no kind note, so an unlabeled
+  // text field can only be told from a button by its element.
+  let kind = kindNote
+  if (!kind && element) {
+    kind =
+      element.tagName === 'BUTTON'
+        ? 'button'
+        : (element as HTMLInputElement).type
+  }
+  kind ??=
+    label !== undefined || !field
+      ? 'text'
+      : field === ' ' || field === 'x'
+        ? 'checkbox'
+        : 'button'
+
+  const node: SemanticMarkdownAST.FormControlNode = {
+    type: 'formControl',
+    kind,
+  }
+  if (name !== undefined) {
+    node.name = name
+  }
+  if (required) {
+    node.required = true
+  }
+  if (disabled) {
+    node.disabled = true
+  }
+  if (href) {
+    node.elementId = href.slice(1)
+  }
+
+  switch (node.kind) {
+    case 'checkbox':
+    case 'radio':
+      node.checked = field === 'x'
+      if (text) {
+        node.label = text
+      }
+      break
+    case 'button':
+    case 'submit':
+    case 'reset':
+      if (field) {
+        node.label = field
+      }
+      break
+    default:
+      if (label !== undefined) {
+        node.label = label
+      }
+      if (optionLabels !== undefined) {
+        // The selected options are listed in order.
+        let selected = field
+        node.options = (optionLabels ? optionLabels.split(' | ') : []).map(
+          optionLabel => {
+            const isSelected =
+              selected === optionLabel ||
+              selected.startsWith(`${optionLabel}, `)
+            if (isSelected) {
+              selected = selected.slice(optionLabel.length + 2)
+            }
+            return {
+              label: optionLabel,
+              value: unescapeMarkdownCharacters(optionLabel),
+              selected: isSelected,
+            }
+          },
+        )
+      } else if (field) {
+        node.value = field
+      }
+  }
+  if (multiple) {
+    node.multiple = true
+  }
+
+  // Labels and values can look like the other parts of the syntax, so only
+  // keep the node if it renders the same way.
+  if (markdownASTToString([node]) !== `${line}\n`) {
+    return
+  }
+  return node
+}
+
+function matchInlineSemantic(
+  source: string,
+  pos: number,
+  indentLevel: number,
+  options: MarkdownParseOptions,
+): { node: Node; end: number } | undefined {
+  const match = /^<([a-z]+)(?: title="([^"]*)")?>/.exec(source.slice(pos))
+  if (!match || !inlineSemanticTypes.includes(match[1] as InlineSemanticType)) {
+    return
+  }
+  const htmlType = match[1] as InlineSemanticType
+  const contentStart = pos + match[0].length
+
+  // Find the matching close tag, accounting for nested tags of the same
+  // type.
+  const tagRegex = new RegExp(
+    `<${htmlType}(?: title="[^"]*")?>|</${htmlType}>`,
+    'g',
+  )
+  tagRegex.lastIndex = contentStart
+  let depth = 1
+  let tag: RegExpExecArray | null
+  do {
+    tag = tagRegex.exec(source)
+    if (!tag) {
+      return
+    }
+    depth += tag[0][1] === '/' ? -1 : 1
+  } while (depth > 0)
+
+  let content = source.slice(contentStart, tag.index)
+  const node: SemanticMarkdownAST.InlineSemanticNode = {
+    type: 'inlineSemantic',
+    htmlType,
+    content: [],
+  }
+  if (match[2]) {
+    node.title = match[2].replace(/&quot;/g, '"')
+  }
+  const annotationStart = content.lastIndexOf('<rt>')
+  if (annotationStart !== -1 && content.endsWith('</rt>')) {
+    node.annotation = content.slice(annotationStart + 4, -5)
+    content = content.slice(0, annotationStart)
+  }
+  node.content = parseInline(content, indentLevel, true, options)
+  return { node, end: tagRegex.lastIndex }
+}
+
+/**
+ * Get the element that a link to an element ID like `#e0` was rendered
+ * from.
+ */
+function getIndexedElement(href: string, options: MarkdownParseOptions) {
+  const match = /^#(e\d+)$/.exec(href)
+  return match ? options.interactiveElements?.[match[1]] : undefined
+}
+
+/**
+ * Indexed links are rendered with their element ID instead of their URL.
+ */
+function toLink(
+  href: string,
+  content: Node[],
+  element: Element | undefined,
+): SemanticMarkdownAST.LinkNode {
+  if (element?.tagName !== 'A') {
+    return { type: 'link', href, content }
+  }
+  return {
+    type: 'link',
+    href: element.getAttribute('href') ?? href,
+    content,
+    elementId: href.slice(1),
+  }
+}
+
+/**
+ * Convert scanned inline items into nodes, undoing the indentation and
+ * spacing that the renderer adds on its own.
+ */
+function assembleInline(
+  items: InlineItem[],
+  indentLevel: number,
+  fresh: boolean,
+): Node[] {
+  const indent = ' '.repeat(indentLevel * 2)
+  const nodes: Node[] = []
+
+  // The renderer output so far, as far as it matters for spacing decisions.
+  let output = fresh ? '' : '\n'
+
+  for (const item of items) {
+    if (typeof item === 'string') {
+      let content = item
+      if (isLineStart(output)) {
+        if (indent && content.startsWith(indent)) {
+          content = content.slice(indent.length)
+        }
+        content = unescapeListMarker(content)
+        output += indent
+      }
+      // Punctuation is the only text the renderer doesn't separate from the
+      // preceding output with a space.
+      while (
+        output &&
+        !/\s/.test(output.slice(-1)) &&
+        content.length > 1 &&
+        /^[.,!?;:]/.test(content)
+      ) {
+        nodes.push({ type: 'text', content: content[0] })
+        output += content[0]
+        content = content.slice(1)
+      }
+      nodes.push({ type: 'text', content })
+      output += content
+      continue
+    }
+    if ((item.type === 'code' || item.type === 'math') && item.inline) {
+      // Inline code and math add their own leading space when needed.
+      const prevNode = nodes.at(-1)
+      if (prevNode?.type === 'text' && output.endsWith(' ')) {
+        const trimmedOutput = output.slice(0, -1)
+        if (!/\s/.test(trimmedOutput.slice(-1))) {
+          prevNode.content = prevNode.content.slice(0, -1)
+          output = trimmedOutput
+          if (!prevNode.content) {
+            nodes.pop()
+          }
+        }
+      }
+      if (!/\s/.test(output.slice(-1))) {
+        output += ' '
+      }
+      output += item.type === 'code' ? '`' : '$'
+    } else if (item.type === 'formControl') {
+      // Form controls add their own leading newline when needed.
+      const prevNode = nodes.at(-1)
+      if (prevNode?.type === 'text' && /[^\n]\n$/.test(prevNode.content)) {
+        prevNode.content = prevNode.content.slice(0, -1)
+        output = output.slice(0, -1)
+      }
+      output += '\n'
+    } else {
+      output +=
+        item.type === 'link' ? ')' : item.type === 'inlineSemantic' ? '>' : '*'
+    }
+    nodes.push(item)
+  }
+
+  return nodes
+}
+
+/**
+ * Turn the newlines in parsed inline content into paragraphs, line breaks
+ * and thematic breaks. The grouping is discarded if it wouldn't render the
+ * same way, which can happen with hand-written Markdown.
+ */
+function groupParagraphs(
+  nodes: Node[],
+  indentLevel: number,
+  fresh: boolean,
+): Node[] {
+  if (
+    !nodes.some(node => node.type === 'text' && node.content.includes('\n'))
+  ) {
+    return nodes
+  }
+  const indent = ' '.repeat(indentLevel * 2)
+  const grouped: Node[] = []
+  let paragraph: Node[] = []
+  let atLineStart = fresh
+
+  for (const node of nodes) {
+    if (node.type !== 'text') {
+      paragraph.push(node)
+      atLineStart = false
+      continue
+    }
+    const parts = node.content.split(/(\n+)/)
+    for (let i = 0; i < parts.length; i++) {
+      let part = parts[i]
+      if (part.startsWith('\n')) {
+        const lineBreakCount = part.length < 2 ? part.length : part.length - 2
+        for (let j = 0; j < lineBreakCount; j++) {
+          paragraph.push({ type: 'lineBreak' })
+        }
+        if (part.length >= 2) {
+          grouped.push(
+            paragraph.length
+              ? { type: 'paragraph', content: paragraph }
+              : { type: 'text', content: '\n\n' },
+          )
+          paragraph = []
+        }
+        atLineStart = true
+        continue
+      }
+      if (atLineStart) {
+        if (indent && part.startsWith(indent)) {
+          part = part.slice(indent.length)
+        }
+        part = unescapeListMarker(part)
+      }
+      if (!part) {
+        continue
+      }
+      atLineStart = false
+      if (
+        part === '---' &&
+        !paragraph.length &&
+        parts[i + 1]?.startsWith('\n\n')
+      ) {
+        // The renderer adds the paragraph break before thematic breaks
+        // that don't follow a paragraph.
+        const prevNode = grouped.at(-1)
+        if (prevNode?.type === 'text' && prevNode.content === '\n\n') {
+          grouped.pop()
+        }
+        grouped.push({ type: 'thematicBreak' })
+        parts[i + 1] = parts[i + 1].slice(2)
+        atLineStart = true
+        continue
+      }
+      paragraph.push({ type: 'text', content: part })
+    }
+  }
+  grouped.push(...paragraph)
+
+  // Compare the renderings after the same preceding output.
+  const prefix: Node[] = fresh ? [] : [{ type: 'text', content: '\n' }]
+  if (
+    markdownASTToString([...prefix, ...grouped], undefined, indentLevel) !==
+    markdownASTToString([...prefix, ...nodes], undefined, indentLevel)
+  ) {
+    return nodes
+  }
+  return grouped
+}
+
+/**
+ * The renderer escapes text at the start of a line that looks like a list
+ * marker.
+ */
+function unescapeListMarker(text: string) {
+  return text.replace(/^\\-(?= )/, '-').replace(/^(\d+)\\\.(?= )/, '$1.')
+}
+
+function isLineStart(output: string) {
+  return output === '' || output.endsWith('\n')
+}
+
+function findClosingBracket(source: string, pos: number) {
+  for (let i = pos; i < source.length; i++) {
+    const char = source[i]
+    if (char === '\\') {
+      i++
+    } else if (char === ']') {
+      return i
+    } else if (char === '\n' && source[i + 1] === '\n') {
+      return -1
+    }
+  }
+  return -1
+}
+
+function findClosingParen(source: string, pos: number) {
+  let depth = 0
+  for (let i = pos; i < source.length; i++) {
+    const char = source[i]
+    if (char === '(') {
+      depth++
+    } else if (char === ')') {
+      if (depth === 0) {
+        return i
+      }
+      depth--
+    } else if (char === '\n') {
+      return -1
+    }
+  }
+  return -1
+}
+
+/**
+ * Blocks at the end of trimmed content are missing their trailing newlines.
+ */
+function indexOrEnd(source: string, search: string, pos: number) {
+  const index = source.indexOf(search, pos)
+  return index === -1 ? source.length : index
+}
+
+function countMatches(text: string, search: string) {
+  let count = 0
+  let index = text.indexOf(search)
+  while (index !== -1) {
+    count++
+    index = text.indexOf(search, index + search.length)
+  }
+  return count
+}
+
+function safeDecodeURI(uri: string) {
+  try {
+    return decodeURI(uri)
+  } catch {
+    return uri
+  }
+}
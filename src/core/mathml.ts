@@ -0,0 +1,295 @@
+const symbols: Record<string, string> = {
+  // Greek letters
+  α: '\\alpha',
+  β: '\\beta',
+  γ: '\\gamma',
+  δ: '\\delta',
+  ε: '\\epsilon',
+  ϵ: '\\epsilon',
+  ζ: '\\zeta',
+  η: '\\eta',
+  θ: '\\theta',
+  ι: '\\iota',
+  κ: '\\kappa',
+  λ: '\\lambda',
+  μ: '\\mu',
+  ν: '\\nu',
+  ξ: '\\xi',
+  π: '\\pi',
+  ρ: '\\rho',
+  σ: '\\sigma',
+  ς: '\\varsigma',
+  τ: '\\tau',
+  υ: '\\upsilon',
+  φ: '\\phi',
+  ϕ: '\\phi',
+  χ: '\\chi',
+  ψ: '\\psi',
+  ω: '\\omega',
+  Γ: '\\Gamma',
+  Δ: '\\Delta',
+  Θ: '\\Theta',
+  Λ: '\\Lambda',
+  Ξ: '\\Xi',
+  Π: '\\Pi',
+  Σ: '\\Sigma',
+  Υ: '\\Upsilon',
+  Φ: '\\Phi',
+  Ψ: '\\Psi',
+  Ω: '\\Omega',
+  // Operators and relations
+  '±': '\\pm',
+  '∓': '\\mp',
+  '×': '\\times',
+  '÷': '\\div',
+  '·': '\\cdot',
+  '⋅': '\\cdot',
+  '∗': '\\ast',
+  '−': '-',
+  '≤': '\\leq',
+  '≥': '\\geq',
+  '≠': '\\neq',
+  '≈': '\\approx',
+  '≡': '\\equiv',
+  '∼': '\\sim',
+  '≅': '\\cong',
+  '∝': '\\propto',
+  '∈': '\\in',
+  '∉': '\\notin',
+  '⊂': '\\subset',
+  '⊆': '\\subseteq',
+  '⊃': '\\supset',
+  '⊇': '\\supseteq',
+  '∪': '\\cup',
+  '∩': '\\cap',
+  '∅': '\\emptyset',
+  '∀': '\\forall',
+  '∃': '\\exists',
+  '¬': '\\neg',
+  '∧': '\\land',
+  '∨': '\\lor',
+  '→': '\\to',
+  '←': '\\leftarrow',
+  '↔': '\\leftrightarrow',
+  '⇒': '\\Rightarrow',
+  '⇐': '\\Leftarrow',
+  '⇔': '\\Leftrightarrow',
+  '↦': '\\mapsto',
+  '∞': '\\infty',
+  '∂': '\\partial',
+  '∇': '\\nabla',
+  '∑': '\\sum',
+  '∏': '\\prod',
+  '∫': '\\int',
+  '∮': '\\oint',
+  '√': '\\surd',
+  '…': '\\ldots',
+  '⋯': '\\cdots',
+  '′': "'",
+  '″': "''",
+  '°': '^\\circ',
+  '⟨': '\\langle',
+  '⟩': '\\rangle',
+  '{': '\\{',
+  '}': '\\}',
+  '%': '\\%',
+  '#': '\\#',
+  '&': '\\&',
+  '⁡': '', // Function application
+  '⁢': '', // Invisible times
+  '⁣': '', // Invisible separator
+}
+
+const functionNames = new Set([
+  'arccos',
+  'arcsin',
+  'arctan',
+  'cos',
+  'cosh',
+  'cot',
+  'csc',
+  'det',
+  'exp',
+  'gcd',
+  'inf',
+  'lim',
+  'ln',
+  'log',
+  'max',
+  'min',
+  'sec',
+  'sin',
+  'sinh',
+  'sup',
+  'tan',
+  'tanh',
+])
+
+/**
+ * Operators whose limits are written as subscripts and superscripts.
+ */
+const largeOperators = new Set([
+  '\\sum',
+  '\\prod',
+  '\\int',
+  '\\oint',
+  '\\lim',
+  '\\max',
+  '\\min',
+  '\\sup',
+  '\\inf',
+])
+
+const accents: Record<string, string> = {
+  '^': '\\hat',
+  ˆ: '\\hat',
+  '~': '\\tilde',
+  '˜': '\\tilde',
+  '¯': '\\bar',
+  '‾': '\\overline',
+  '→': '\\vec',
+  '⃗': '\\vec',
+  '˙': '\\dot',
+  '¨': '\\ddot',
+}
+
+/**
+ * Get the TeX source of a `<math>` element from its `application/x-tex`
+ * annotation, as added by KaTeX and MathJax.
+ */
+export function getTeXAnnotation(math: Element): string | undefined {
+  const annotation = Array.from(math.querySelectorAll('annotation')).find(
+    _ => _.getAttribute('encoding') === 'application/x-tex',
+  )
+  return annotation?.textContent?.trim() || undefined
+}
+
+/**
+ * Convert a MathML element to TeX. Unknown elements are converted to the
+ * TeX of their children.
+ */
+export function mathMLToTeX(element: Element): string {
+  const children = Array.from(element.children)
+  const child = (index: number) =>
+    children[index] ? mathMLToTeX(children[index]) : ''
+  const arg = (index: number) => group(child(index))
+
+  switch (element.localName) {
+    case 'mi': {
+      const text = element.textContent?.trim() ?? ''
+      if (functionNames.has(text)) {
+        return `\\${text}`
+      }
+      return text.length > 1 ? `\\mathrm{${text}}` : convertText(text)
+    }
+    case 'mn':
+      return element.textContent?.trim() ?? ''
+    case 'mo':
+      return convertText(element.textContent?.trim() ?? '')
+    case 'mtext': {
+      const text = element.textContent ?? ''
+      return text.trim() ? `\\text{${text}}` : '\\ '
+    }
+    case 'ms':
+      return `\\text{"${element.textContent ?? ''}"}`
+    case 'mspace':
+      return '\\ '
+    case 'mphantom':
+    case 'annotation':
+    case 'annotation-xml':
+      return ''
+    case 'semantics':
+      return child(0)
+    case 'mfrac':
+      return `\\frac${group(child(0), true)}${group(child(1), true)}`
+    case 'msqrt':
+      return `\\sqrt${group(joinTeX(children.map(mathMLToTeX)), true)}`
+    case 'mroot':
+      return `\\sqrt[${child(1)}]${group(child(0), true)}`
+    case 'msup':
+      return `${arg(0)}^${arg(1)}`
+    case 'msub':
+      return `${arg(0)}_${arg(1)}`
+    case 'msubsup':
+      return `${arg(0)}_${arg(1)}^${arg(2)}`
+    case 'munder': {
+      const base = child(0)
+      return largeOperators.has(base)
+        ? `${base}_${arg(1)}`
+        : `\\underset${group(child(1), true)}${group(base, true)}`
+    }
+    case 'mover': {
+      const base = child(0)
+      const accent = accents[children[1]?.textContent?.trim() ?? '']
+      if (accent) {
+        return `${accent}${group(base, true)}`
+      }
+      return largeOperators.has(base)
+        ? `${base}^${arg(1)}`
+        : `\\overset${group(child(1), true)}${group(base, true)}`
+    }
+    case 'munderover':
+      return `${child(0)}_${arg(1)}^${arg(2)}`
+    case 'mfenced': {
+      const open = element.getAttribute('open') ?? '('
+      const close = element.getAttribute('close') ?? ')'
+      const separator = (element.getAttribute('separators') ?? ',').trim()
+      return `\\left${convertDelimiter(open)} ${joinTeX(
+        children.map(mathMLToTeX),
+        separator.charAt(0),
+      )} \\right${convertDelimiter(close)}`
+    }
+    case 'mtable': {
+      const rows = children.map(row =>
+        Array.from(row.children)
+          .map(cell => mathMLToTeX(cell))
+          .join(' & '),
+      )
+      return `\\begin{matrix} ${rows.join(' \\\\ ')} \\end{matrix}`
+    }
+  }
+  return joinTeX(children.map(mathMLToTeX))
+}
+
+function convertText(text: string) {
+  return Array.from(text)
+    .map(char => symbols[char] ?? char)
+    .join('')
+}
+
+function convertDelimiter(delimiter: string) {
+  if (!delimiter) {
+    return '.'
+  }
+  return convertText(delimiter)
+}
+
+/**
+ * Wrap TeX in braces, unless it's a single character (or command) and
+ * `always` is false.
+ */
+function group(tex: string, always = false) {
+  if (!always && (tex.length === 1 || /^\\[a-zA-Z]+$/.test(tex))) {
+    return tex
+  }
+  return `{${tex}}`
+}
+
+/**
+ * Join TeX fragments, separating commands and single-character scripts from
+ * the letters that follow them.
+ */
+function joinTeX(fragments: string[], separator = '') {
+  return fragments.reduce((tex, fragment, index) => {
+    if (index > 0 && separator) {
+      tex += separator
+    }
+    if (
+      (/\\[a-zA-Z]+$/.test(tex) && /^[a-zA-Z]/.test(fragment)) ||
+      (/[_^][a-zA-Z0-9]$/.test(tex) && /^[a-zA-Z0-9]/.test(fragment))
+    ) {
+      tex += ' '
+    }
+    return tex + fragment
+  }, '')
+}
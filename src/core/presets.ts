@@ -0,0 +1,125 @@
+import type {
+  ConversionConfig,
+  ConversionPreset,
+  HtmlConversionOptions,
+} from '../types/markdownTypes'
+
+export const conversionPresets: Record<
+  ConversionPreset,
+  Readonly<HtmlConversionOptions>
+> = {
+  'llm-compact': {
+    extractMainContent: true,
+    removeBoilerplate: true,
+    includeMetaData: false,
+    cleanUrls: true,
+    refifyUrls: true,
+    inlineSemanticRendering: 'text',
+  },
+  readable: {
+    extractMainContent: true,
+    removeBoilerplate: true,
+    cleanUrls: true,
+    extractFootnotes: true,
+    inlineSemanticRendering: 'markdown',
+    linkStyle: 'reference',
+    linkReferencePlacement: 'section',
+  },
+  archival: {
+    includeMetaData: 'extended',
+    emitFrontMatter: true,
+    extractFootnotes: true,
+    sameOriginUrls: 'absolute',
+  },
+}
+
+/**
+ * Resolve the `preset` and `config` options into plain options. From
+ * lowest to highest precedence, these are: the config, its overrides for
+ * the hostname of the URL, and the other options, where each set of
+ * options is applied after its presets. Output options, like `urlMap` and
+ * `interactiveElements`, are shared with the given options.
+ * @param url The URL of the page. Defaults to the `baseUrl` option.
+ * @returns The given options when they have no `preset` or `config`.
+ */
+export function resolveConversionOptions(
+  options: HtmlConversionOptions,
+  url?: string,
+): HtmlConversionOptions {
+  if (!options.preset && !options.config) {
+    return options
+  }
+  const { config, ...rest } = options
+  const resolved: HtmlConversionOptions = {}
+  if (config) {
+    const { hosts, ...configOptions } = config
+    applyOptions(resolved, configOptions)
+    const hostname = getHostname(
+      url ?? options.baseUrl ?? configOptions.baseUrl,
+    )
+    if (hosts && hostname) {
+      Object.keys(hosts)
+        .filter(pattern => matchesHostname(pattern, hostname))
+        .sort((a, b) => getSpecificity(a) - getSpecificity(b))
+        .forEach(pattern => applyOptions(resolved, hosts[pattern]))
+    }
+  }
+  applyOptions(resolved, rest)
+  if (resolved.refifyUrls) {
+    resolved.urlMap = options.urlMap ??= resolved.urlMap ?? {}
+  }
+  if (resolved.indexInteractiveElements) {
+    resolved.interactiveElements = options.interactiveElements ??=
+      resolved.interactiveElements ?? {}
+  }
+  return resolved
+}
+
+/**
+ * Apply the presets of some options, then the options themselves, skipping
+ * undefined values.
+ */
+function applyOptions(
+  target: HtmlConversionOptions,
+  { preset, ...options }: Omit<ConversionConfig, 'hosts'>,
+) {
+  const presets = preset === undefined ? [] : [preset].flat()
+  for (const name of presets) {
+    if (!Object.hasOwn(conversionPresets, name)) {
+      throw new Error(
+        `Unknown preset "${name}". Expected one of: ${Object.keys(conversionPresets).join(', ')}`,
+      )
+    }
+    Object.assign(target, conversionPresets[name])
+  }
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) {
+      ;(target as Record<string, unknown>)[key] = value
+    }
+  }
+}
+
+function getHostname(url: string | undefined) {
+  try {
+    return url ? new URL(url).hostname.toLowerCase() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function matchesHostname(pattern: string, hostname: string) {
+  pattern = pattern.toLowerCase()
+  if (pattern.startsWith('*.')) {
+    const domain = pattern.slice(2)
+    return hostname === domain || hostname.endsWith(`.${domain}`)
+  }
+  return hostname === pattern
+}
+
+/**
+ * Wildcard patterns are less specific than exact hostnames, and shorter
+ * domains are less specific than longer ones.
+ */
+function getSpecificity(pattern: string) {
+  return (pattern.startsWith('*.') ? 0 : 1000) + pattern.split('.').length
+}
@@ -0,0 +1,132 @@
+import type {
+  Node,
+  SiteProfile,
+  SiteProfileOptions,
+} from '../types/markdownTypes'
+import { htmlToMarkdownAST } from './htmlToMarkdownAST'
+
+/**
+ * Nodes that aren't blocks of their own.
+ */
+const ignoredTypes = new Set(['meta', 'lineBreak', 'thematicBreak', 'custom'])
+
+/**
+ * Properties that differ between pages without changing the content.
+ */
+const ignoredKeys = new Set(['source', 'elementId'])
+
+/**
+ * Learn the template blocks of a site, like its header, footer and nav,
+ * from several of its pages. A block is a top-level node or a node inside
+ * a `semanticHtml` node, and it's a template block when the same block
+ * (ignoring whitespace and sources) appears in enough of the pages.
+ * @param pages The pages, as documents, elements or ASTs. Use the same
+ * options to convert them as for the pages the profile is used on.
+ */
+export function createSiteProfile(
+  pages: (Document | Element | Node[])[],
+  options: SiteProfileOptions = {},
+): SiteProfile {
+  const pageCounts = new Map<string, number>()
+  for (const page of pages) {
+    const ast = Array.isArray(page)
+      ? page
+      : htmlToMarkdownAST(
+          'documentElement' in page
+            ? (page.body ?? page.documentElement)
+            : page,
+          options,
+        )
+    const fingerprints = new Set<string>()
+    forEachBlock(ast, node => {
+      fingerprints.add(getFingerprint(node))
+    })
+    for (const fingerprint of fingerprints) {
+      pageCounts.set(fingerprint, (pageCounts.get(fingerprint) ?? 0) + 1)
+    }
+  }
+  const minPages = Math.max(
+    2,
+    Math.ceil(pages.length * (options.threshold ?? 0.5)),
+  )
+  return {
+    pages: pages.length,
+    templateBlocks: Array.from(pageCounts)
+      .filter(([, count]) => count >= minPages)
+      .map(([fingerprint]) => fingerprint)
+      .sort(),
+  }
+}
+
+/**
+ * Remove the template blocks of a site profile from an AST, along with the
+ * `semanticHtml` nodes left empty. The nodes are modified in place.
+ * @returns The given AST.
+ */
+export function stripTemplateBlocks(ast: Node[], profile: SiteProfile): Node[] {
+  const templateBlocks = new Set(profile.templateBlocks)
+  const strip = (nodes: Node[]) => {
+    for (let index = nodes.length - 1; index >= 0; index--) {
+      const node = nodes[index]
+      if (ignoredTypes.has(node.type)) {
+        continue
+      }
+      if (templateBlocks.has(getFingerprint(node))) {
+        nodes.splice(index, 1)
+      } else if (node.type === 'semanticHtml') {
+        strip(node.content)
+        if (!node.content.length) {
+          nodes.splice(index, 1)
+        }
+      }
+    }
+  }
+  strip(ast)
+  return ast
+}
+
+function forEachBlock(nodes: Node[], callback: (node: Node) => void) {
+  for (const node of nodes) {
+    if (!ignoredTypes.has(node.type)) {
+      callback(node)
+      if (node.type === 'semanticHtml') {
+        forEachBlock(node.content, callback)
+      }
+    }
+  }
+}
+
+/**
+ * Hash a node's structure and text, with whitespace collapsed.
+ */
+function getFingerprint(node: Node) {
+  return hashString(
+    JSON.stringify(node, (key, value) =>
+      ignoredKeys.has(key)
+        ? undefined
+        : typeof value === 'string'
+          ? value.replace(/\s+/g, ' ').trim()
+          : value,
+    ),
+  )
+}
+
+/**
+ * A 53-bit string hash (cyrb53), in base 36.
+ */
+function hashString(text: string) {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 =
+    Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^
+    Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 =
+    Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^
+    Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
@@ -0,0 +1,32 @@
+import type { SourceMapEntry } from '../types/markdownTypes'
+
+/**
+ * Finds the innermost source map entries with a DOM element that overlap the
+ * given range of the Markdown output.
+ * @param sourceMap The source map filled in by `markdownASTToString`.
+ * @param start The offset of the first character in the range.
+ * @param end The offset after the last character in the range. Defaults to
+ * `start + 1`.
+ * @returns The matching entries, in output order.
+ */
+export function findSourceMapEntries(
+  sourceMap: SourceMapEntry[],
+  start: number,
+  end = start + 1,
+): SourceMapEntry[] {
+  const overlapping = sourceMap.filter(
+    entry => entry.element && entry.start < end && entry.end > start,
+  )
+  return overlapping
+    .filter(
+      entry =>
+        !overlapping.some(
+          other =>
+            other !== entry &&
+            other.start >= entry.start &&
+            other.end <= entry.end &&
+            (other.start > entry.start || other.end < entry.end),
+        ),
+    )
+    .sort((a, b) => a.start - b.start)
+}
@@ -1,107 +1,440 @@
-import type { Node } from '../types/markdownTypes'
-
-const mediaSuffixes = [
-  'jpeg',
-  'jpg',
-  'png',
-  'gif',
-  'bmp',
-  'tiff',
-  'tif',
-  'svg',
-  'webp',
-  'ico',
-  'avi',
-  'mov',
-  'mp4',
-  'mkv',
-  'flv',
-  'wmv',
-  'webm',
-  'mpeg',
-  'mpg',
-  'mp3',
-  'wav',
-  'aac',
-  'ogg',
-  'flac',
-  'm4a',
-  'pdf',
-  'doc',
-  'docx',
-  'ppt',
-  'pptx',
-  'xls',
-  'xlsx',
-  'txt',
-  'css',
-  'js',
-  'xml',
-  'json',
-  'html',
-  'htm',
-]
-const addRefPrefix = (
-  prefix: string,
-  prefixesToRefs: Record<string, string>,
-): string => {
-  if (!prefixesToRefs[prefix]) {
-    prefixesToRefs[prefix] = 'ref' + Object.values(prefixesToRefs).length
-  }
-  return prefixesToRefs[prefix]
+import type {
+  ExtractOptions,
+  Node,
+  RefifyOptions,
+  SemanticMarkdownAST,
+  UrlContext,
+} from '../types/markdownTypes'
+import { visit } from './astUtils'
+
+type RefGroup = {
+  /**
+   * The URL, or the URL prefix, that's replaced by a ref.
+   */
+  key: string
+  /**
+   * The rest of the URL after the prefix and a slash, which is kept after
+   * the ref like `ref0://rest`.
+   */
+  rest?: string
 }
-const processUrl = (url: string, prefixesToRefs: Record<string, string>) => {
-  if (!url.startsWith('http')) {
-    return url
+
+/**
+ * Get the URL or URL prefix that an absolute URL is replaced with a ref for.
+ * - `auto`: Files (URLs with an extension) share a ref per directory, and
+ *   other URLs with more than two path segments get their own ref.
+ * - `host`: URLs share a ref per origin.
+ * - `pathPrefix`: URLs share a ref per directory.
+ */
+function getRefGroup(
+  url: string,
+  groupBy: RefifyOptions['groupBy'] = 'auto',
+): RefGroup | undefined {
+  if (!/^https?:\/\//i.test(url)) {
+    return
+  }
+  const path = url.split(/[?#]/, 1)[0]
+  const pathStart = path.indexOf('/', path.indexOf('//') + 2)
+  const lastSlash = path.lastIndexOf('/')
+  if (pathStart === -1) {
+    return groupBy === 'auto' ? undefined : { key: url }
   }
-  const mediaSuffix = url.split('.').slice(-1)[0]
-  if (mediaSuffix && mediaSuffixes.includes(mediaSuffix)) {
-    const parts = url.split('/') // Split URL keeping the slash before text
-    const prefix = parts.slice(0, -1).join('/') // Get the prefix by removing last part
-    const refPrefix = addRefPrefix(prefix, prefixesToRefs)
-    return `${refPrefix}://${parts.slice(-1).join('')}`
+  if (groupBy === 'host') {
+    return { key: url.slice(0, pathStart), rest: url.slice(pathStart + 1) }
+  }
+  if (
+    groupBy === 'pathPrefix' ||
+    /\.[a-z\d]{1,5}$/i.test(path.slice(lastSlash))
+  ) {
+    return { key: url.slice(0, lastSlash), rest: url.slice(lastSlash + 1) }
   }
   if (url.split('/').length > 4) {
-    return addRefPrefix(url, prefixesToRefs)
+    return { key: url }
   }
-  return url
 }
 
-export function refifyUrls(
-  markdownElement: Node | Node[],
-  urlMap: Record<string, string>,
+/**
+ * Call `callback` for the URL of every link, image and media node, and
+ * for the links in string table cells, replacing the URL with its result.
+ * Links whose URL becomes null are replaced by their content, and images
+ * and media are removed.
+ */
+function mapUrls(
+  ast: Node | Node[],
+  callback: (url: string, kind: UrlContext['kind']) => string | null,
 ) {
-  if (Array.isArray(markdownElement)) {
-    markdownElement.forEach(element => refifyUrls(element, urlMap))
-  } else {
-    switch (markdownElement.type) {
-      case 'link':
-        markdownElement.href = processUrl(markdownElement.href, urlMap)
-        refifyUrls(markdownElement.content, urlMap)
+  visit(ast, (node, path) => {
+    switch (node.type) {
+      case 'link': {
+        const href = callback(node.href, 'link')
+        if (href === null) {
+          // Replaced nodes aren't visited, so map the content first.
+          mapUrls(node.content, callback)
+          path.replace(...node.content)
+        } else {
+          node.href = href
+        }
         break
+      }
       case 'image':
       case 'video':
-        markdownElement.src = processUrl(markdownElement.src, urlMap)
+      case 'audio':
+      case 'embed': {
+        const kind = node.type === 'image' ? 'image' : 'media'
+        const src = callback(node.src, kind)
+        if (src === null) {
+          path.remove()
+          break
+        }
+        node.src = src
+        if (node.type !== 'embed' && node.sources) {
+          node.sources = node.sources.filter(source => {
+            const src = callback(source.src, kind)
+            if (src !== null) {
+              source.src = src
+            }
+            return src !== null
+          })
+        }
         break
-      case 'list':
-        markdownElement.items.forEach(item =>
-          item.content.forEach(_ => refifyUrls(_, urlMap)),
-        )
-        break
-      case 'table':
-        markdownElement.rows.forEach(row =>
-          row.cells.forEach(cell =>
-            typeof cell.content === 'string'
-              ? null
-              : refifyUrls(cell.content, urlMap),
-          ),
-        )
-        break
-      case 'blockquote':
-      case 'semanticHtml':
-        refifyUrls(markdownElement.content, urlMap)
+      }
+      case 'tableCell':
+        if (typeof node.content === 'string') {
+          node.content = node.content.replace(
+            /(!?)(\[[^\]]*\]\()([^)\s]+)/g,
+            (match, bang: string, prefix: string, url: string) => {
+              const newUrl = callback(url, bang ? 'image' : 'link')
+              return newUrl === null ? match : bang + prefix + newUrl
+            },
+          )
+        }
         break
     }
+  })
+}
+
+/**
+ * Replace long URLs in the AST with short refs, recorded in `urlMap` (which
+ * maps URLs and URL prefixes to refs). New refs are numbered in the sorted
+ * order of their URLs, so they're the same for the same set of URLs. With
+ * `options`, URLs are passed through `cleanUrls` and `rewriteUrl` first, so
+ * ASTs from `markdownToAST` can be cleaned too.
+ */
+export function refifyUrls(
+  markdownElement: Node | Node[],
+  urlMap: Record<string, string>,
+  options?: RefifyOptions & Pick<ExtractOptions, 'cleanUrls' | 'rewriteUrl'>,
+) {
+  const groups = new Map<string, RefGroup>()
+  mapUrls(markdownElement, (url, kind) => {
+    const newUrl = transformUrl(url, { kind }, options)
+    const group =
+      newUrl === null ? undefined : getRefGroup(newUrl, options?.groupBy)
+    if (group) {
+      groups.set(newUrl!, group)
+    }
+    return newUrl
+  })
+  const newKeys = new Set(Array.from(groups.values(), _ => _.key))
+  for (const key of Array.from(newKeys).sort()) {
+    urlMap[key] ??= `ref${Object.keys(urlMap).length}`
   }
+  mapUrls(markdownElement, url => {
+    const group = groups.get(url)
+    if (!group) {
+      return url
+    }
+    const ref = urlMap[group.key]
+    return group.rest === undefined ? ref : `${ref}://${group.rest}`
+  })
   return urlMap
 }
+
+/**
+ * Restore the URLs replaced by `refifyUrls`, in Markdown (like the response
+ * of an LLM) or in an AST, which is modified in place. In Markdown, refs
+ * with a path (like `ref0://image.png`) are restored anywhere, and refs
+ * without one only as link destinations.
+ */
+export function derefifyUrls(
+  markdown: string,
+  urlMap: Record<string, string>,
+): string
+export function derefifyUrls<T extends Node | Node[]>(
+  ast: T,
+  urlMap: Record<string, string>,
+): T
+export function derefifyUrls(
+  input: string | Node | Node[],
+  urlMap: Record<string, string>,
+) {
+  const urls = new Map(Object.entries(urlMap).map(([url, ref]) => [ref, url]))
+  if (typeof input !== 'string') {
+    mapUrls(input, url => {
+      const match = /^([\w-]+):\/\/(.*)$/s.exec(url)
+      if (match && urls.has(match[1])) {
+        return `${urls.get(match[1])}/${match[2]}`
+      }
+      return urls.get(url) ?? url
+    })
+    return input
+  }
+  if (!urls.size) {
+    return input
+  }
+  const refs = Array.from(urls.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(ref => ref.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('|')
+  return input
+    .replace(
+      new RegExp(`(?<![\\w-])(${refs}):\\/\\/([^\\s)\\]>"'<]*)`, 'g'),
+      (_, ref: string, rest: string) => `${urls.get(ref)}/${rest}`,
+    )
+    .replace(
+      new RegExp(`(?<=\\]\\(|<|\\]: )(${refs})(?=[)\\s>"']|$)`, 'gm'),
+      ref => urls.get(ref)!,
+    )
+}
+
+/**
+ * Create a table of the refs in a refified AST and their URLs.
+ */
+export function createRefTable(
+  ast: Node | Node[],
+  urlMap: Record<string, string>,
+): SemanticMarkdownAST.TableNode | undefined {
+  const refs = new Set(Object.values(urlMap))
+  const usedRefs = new Set<string>()
+  mapUrls(ast, url => {
+    const ref = /^([\w-]+)(?::\/\/|$)/.exec(url)?.[1]
+    if (ref && refs.has(ref)) {
+      usedRefs.add(ref)
+    }
+    return url
+  })
+  if (!usedRefs.size) {
+    return
+  }
+  const row = (...cells: string[]): SemanticMarkdownAST.TableRowNode => ({
+    type: 'tableRow',
+    cells: cells.map(content => ({ type: 'tableCell', content })),
+  })
+  return {
+    type: 'table',
+    rows: [
+      row('Ref', 'URL'),
+      row('---', '---'),
+      ...Object.entries(urlMap)
+        .filter(([, ref]) => usedRefs.has(ref))
+        .map(([url, ref]) => row(ref, url)),
+    ],
+  }
+}
+
+const videoEmbeds: {
+  provider: string
+  pattern: RegExp
+  pageUrl: (id: string) => string
+}[] = [
+  {
+    provider: 'youtube',
+    pattern:
+      /^(?:https?:)?\/\/(?:www\.)?youtube(?:-nocookie)?\.com\/embed\/([\w-]+)/,
+    pageUrl: id => `https://www.youtube.com/watch?v=${id}`,
+  },
+  {
+    provider: 'vimeo',
+    pattern: /^(?:https?:)?\/\/player\.vimeo\.com\/video\/(\d+)/,
+    pageUrl: id => `https://vimeo.com/${id}`,
+  },
+]
+
+/**
+ * Recognize the URL of an embedded video player, returning the video
+ * platform and the URL of the video's page.
+ */
+export function parseVideoEmbedUrl(
+  url: string,
+): { provider: string; url: string } | undefined {
+  for (const embed of videoEmbeds) {
+    const id = embed.pattern.exec(url)?.[1]
+    if (id) {
+      return { provider: embed.provider, url: embed.pageUrl(id) }
+    }
+  }
+}
+
+/**
+ * Resolve a URL attribute against the document's `<base href>` and the
+ * `baseUrl` option (or the document's URL), pass it through `cleanUrls` and
+ * `rewriteUrl`, then apply the `sameOriginUrls` and `websiteDomain` options.
+ * URLs that can't be resolved are kept as written.
+ * @returns The URL, or null if `rewriteUrl` dropped it.
+ */
+export function resolveUrl(
+  url: string,
+  element: Element,
+  options: ExtractOptions | undefined,
+  kind: UrlContext['kind'],
+): string | null {
+  const base = getBaseUrl(element, options)
+  const href = transformUrl(
+    parseUrl(url.trim(), base)?.href ?? url.trim(),
+    { kind, element },
+    options,
+  )
+  if (href === null) {
+    return null
+  }
+  const resolved = parseUrl(href)
+  if (
+    options?.sameOriginUrls === 'root-relative' &&
+    resolved &&
+    resolved.origin !== 'null' &&
+    resolved.origin === base?.origin
+  ) {
+    return resolved.pathname + resolved.search + resolved.hash
+  }
+  if (options?.websiteDomain && href.startsWith(options.websiteDomain)) {
+    return href.substring(options.websiteDomain.length)
+  }
+  return href
+}
+
+/**
+ * Apply the `cleanUrls` and `rewriteUrl` options to a URL.
+ */
+function transformUrl(
+  url: string,
+  context: UrlContext,
+  options: Pick<ExtractOptions, 'cleanUrls' | 'rewriteUrl'> | undefined,
+): string | null {
+  if (options?.cleanUrls) {
+    url = cleanUrl(url)
+  }
+  const rewritten = options?.rewriteUrl?.(url, context)
+  return rewritten === undefined ? url : rewritten
+}
+
+function getBaseUrl(element: Element, options?: ExtractOptions) {
+  const document = element.ownerDocument
+  const documentUrl = parseUrl(options?.baseUrl ?? document.URL)
+  const baseHref = document.head
+    ?.querySelector('base[href]')
+    ?.getAttribute('href')
+  return (baseHref && parseUrl(baseHref, documentUrl)) || documentUrl
+}
+
+function parseUrl(url: string, base?: URL) {
+  try {
+    const parsed = new URL(url, base)
+    // Relative URLs can't be resolved against a document without a URL.
+    return parsed.protocol === 'about:' ? undefined : parsed
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Query parameters that only serve to track clicks.
+ */
+const trackingParams = new Set([
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+  '__hssc',
+  '__hstc',
+  '__hsfp',
+  'dclid',
+  'fbclid',
+  'gbraid',
+  'gclid',
+  'gclsrc',
+  'igshid',
+  'li_fat_id',
+  'mc_cid',
+  'mc_eid',
+  'mkt_tok',
+  'msclkid',
+  'oly_anon_id',
+  'oly_enc_id',
+  'ref_src',
+  'ref_url',
+  'twclid',
+  'ttclid',
+  'vero_conv',
+  'vero_id',
+  'wbraid',
+  'yclid',
+])
+const trackingParamPrefixes = ['utm_', 'pk_', 'mtm_']
+
+/**
+ * Redirect services, with the query parameter that holds the target URL.
+ */
+const redirectors: { host: RegExp; path: RegExp; param: string }[] = [
+  { host: /^(www\.)?google\.[a-z.]+$/, path: /^\/url$/, param: 'q' },
+  { host: /^(l|lm)\.facebook\.com$/, path: /^\/l\.php$/, param: 'u' },
+  { host: /^l\.instagram\.com$/, path: /^\/$/, param: 'u' },
+  { host: /^(www\.)?youtube\.com$/, path: /^\/redirect$/, param: 'q' },
+  { host: /^out\.reddit\.com$/, path: /^\/[\w/]*$/, param: 'url' },
+  { host: /^(www\.)?linkedin\.com$/, path: /^\/redir\//, param: 'url' },
+  { host: /^duckduckgo\.com$/, path: /^\/l\/$/, param: 'uddg' },
+  { host: /^(m\.)?vk\.com$/, path: /^\/away\.php$/, param: 'to' },
+  { host: /^slack-redir\.net$/, path: /^\/link$/, param: 'url' },
+]
+
+/**
+ * Unwrap URLs of known redirect services, and remove query parameters used
+ * for click tracking, like `utm_source` and `fbclid`.
+ */
+export function cleanUrl(url: string): string {
+  for (let redirects = 0; redirects < 5; redirects++) {
+    const target = getRedirectTarget(url)
+    if (!target) {
+      break
+    }
+    url = target
+  }
+  // Relative URLs are cleaned too, so the query is handled by itself.
+  const [, path, query, hash = ''] = /^([^?#]*)(?:\?([^#]*))?(.*)$/.exec(url)!
+  if (!query) {
+    return url
+  }
+  // The kept parameters stay as written, since re-encoding them could break
+  // signed URLs.
+  const params = query.split('&')
+  const keptParams = params.filter(param => !isTrackingParam(param))
+  if (keptParams.length === params.length) {
+    return url
+  }
+  const cleanQuery = keptParams.join('&')
+  return path + (cleanQuery ? `?${cleanQuery}` : '') + hash
+}
+
+function isTrackingParam(param: string) {
+  let key = param.split('=')[0].replace(/\+/g, ' ')
+  try {
+    key = decodeURIComponent(key)
+  } catch {}
+  return (
+    trackingParams.has(key) ||
+    trackingParamPrefixes.some(prefix => key.startsWith(prefix))
+  )
+}
+
+function getRedirectTarget(url: string) {
+  const parsed = parseUrl(url)
+  if (!parsed) {
+    return
+  }
+  const redirector = redirectors.find(
+    _ => _.host.test(parsed.hostname) && _.path.test(parsed.pathname),
+  )
+  const target = redirector && parsed.searchParams.get(redirector.param)
+  if (target && /^https?:\/\//i.test(target) && parseUrl(target)) {
+    return target
+  }
+}
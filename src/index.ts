@@ -1,36 +1,115 @@
-import { findAllInAST, findInAST } from './core/astUtils'
-import { findMainContent, wrapMainContent } from './core/domUtils'
+import { findAllInAST, findInAST, transform, visit } from './core/astUtils'
+import { astToHtml } from './core/astToHtml'
+import { findBoilerplate, removeBoilerplate } from './core/boilerplate'
+import { chunkMarkdownAST, estimateTokens } from './core/chunkMarkdownAST'
+import {
+  findMainContent,
+  mergeContentRegions,
+  rankContentCandidates,
+  scoreMainContent,
+  wrapMainContent,
+} from './core/domUtils'
 import { extractMetaData } from './core/extractMetaData'
-import { htmlToMarkdownAST } from './core/htmlToMarkdownAST'
+import { htmlToMarkdownAST, registerTranslator } from './core/htmlToMarkdownAST'
 import { markdownASTToString } from './core/markdownASTToString'
-import { refifyUrls } from './core/urlUtils'
+import { markdownToAST } from './core/markdownToAST'
+import { conversionPresets, resolveConversionOptions } from './core/presets'
+import { createSiteProfile, stripTemplateBlocks } from './core/siteProfile'
+import { findSourceMapEntries } from './core/sourceMap'
+import {
+  cleanUrl,
+  createRefTable,
+  derefifyUrls,
+  refifyUrls,
+} from './core/urlUtils'
 import type {
+  BoilerplateMatch,
+  BoilerplateOptions,
+  BoilerplateRule,
+  ChunkOptions,
+  ContentCandidate,
+  ContentScoringOptions,
+  ConversionConfig,
   ConversionOptions,
+  ConversionPlugin,
+  ConversionPreset,
+  ElementTranslator,
+  HtmlConversionOptions,
+  HtmlRenderOptions,
+  InlineSemanticRendering,
+  MainContentReport,
+  MarkdownChunk,
+  MarkdownParseOptions,
+  MediaLabels,
   Node,
+  RefifyOptions,
   SemanticMarkdownAST,
+  SiteProfile,
+  SiteProfileOptions,
+  SourceMapEntry,
+  UrlContext,
+  VisitCallback,
+  VisitPath,
+  Visitor,
 } from './types/markdownTypes'
 
-export type { ConversionOptions, SemanticMarkdownAST }
+export type {
+  BoilerplateMatch,
+  BoilerplateOptions,
+  BoilerplateRule,
+  ChunkOptions,
+  ContentCandidate,
+  ContentScoringOptions,
+  ConversionConfig,
+  ConversionOptions,
+  ConversionPlugin,
+  ConversionPreset,
+  ElementTranslator,
+  HtmlConversionOptions,
+  HtmlRenderOptions,
+  InlineSemanticRendering,
+  MainContentReport,
+  MarkdownChunk,
+  MarkdownParseOptions,
+  MediaLabels,
+  RefifyOptions,
+  SemanticMarkdownAST,
+  SiteProfile,
+  SiteProfileOptions,
+  SourceMapEntry,
+  UrlContext,
+  VisitCallback,
+  VisitPath,
+  Visitor,
+}
 
 /**
  * Converts an HTML string to Markdown.
  * @param html The HTML string to convert.
- * @param options Conversion options.
+ * @param options Conversion options. The `preset` and `config` options are
+ * resolved for the `baseUrl`.
  * @returns The converted Markdown string.
  */
 export function convertHtmlToMarkdown(
   html: string,
-  options?: ConversionOptions & {
-    /**
-     * Whether to extract the main content of the HTML, ignoring elements like headers and footers.
-     */
-    extractMainContent?: boolean
-    /**
-     * Provides an override for the DOMParser object used to parse the HTML.
-     */
-    overrideDOMParser?: DOMParser
-  },
+  options?: HtmlConversionOptions,
 ): string {
+  options &&= resolveConversionOptions(options)
+  return markdownASTToString(convertHtmlToMarkdownAST(html, options), options)
+}
+
+/**
+ * Converts an HTML string to a Markdown AST, like `convertHtmlToMarkdown`
+ * without the rendering.
+ * @param html The HTML string to convert.
+ * @param options Conversion options.
+ * @returns The Markdown AST.
+ */
+export function convertHtmlToMarkdownAST(
+  html: string,
+  options?: HtmlConversionOptions,
+): Node[] {
+  options &&= resolveConversionOptions(options)
   const parser =
     options?.overrideDOMParser ??
     (typeof DOMParser !== 'undefined' ? new DOMParser() : null)
@@ -44,7 +123,18 @@ export function convertHtmlToMarkdown(
   let element: Element
 
   if (options?.extractMainContent) {
-    element = findMainContent(doc)
+    const candidates =
+      (options.mainContentCandidates ?? 1) > 1
+        ? rankContentCandidates(doc, options.contentScoring)
+        : []
+    if (candidates.length > 1) {
+      element = mergeContentRegions(
+        candidates.slice(0, options.mainContentCandidates).map(_ => _.element),
+        doc,
+      )
+    } else {
+      element = findMainContent(doc, options.contentScoring)
+    }
     if (
       options.includeMetaData &&
       !!doc.querySelector('head')?.innerHTML &&
@@ -65,7 +155,7 @@ export function convertHtmlToMarkdown(
     }
   }
 
-  return convertElementToMarkdown(element, options)
+  return convertElementToMarkdownAST(element, options)
 }
 
 /**
@@ -78,11 +168,41 @@ export function convertElementToMarkdown(
   element: Element,
   options?: ConversionOptions,
 ): string {
+  return markdownASTToString(
+    convertElementToMarkdownAST(element, options),
+    options,
+  )
+}
+
+/**
+ * Converts an HTML Element to a Markdown AST, like `convertElementToMarkdown`
+ * without the rendering. Unlike `htmlToMarkdownAST`, it applies the
+ * `siteProfile` and `refifyUrls` options.
+ * @param element The HTML Element to convert.
+ * @param options Conversion options.
+ * @returns The Markdown AST.
+ */
+export function convertElementToMarkdownAST(
+  element: Element,
+  options?: ConversionOptions,
+): Node[] {
   const ast = htmlToMarkdownAST(element, options)
+  if (options?.siteProfile) {
+    stripTemplateBlocks(ast, options.siteProfile)
+  }
   if (options?.refifyUrls) {
-    refifyUrls(ast, (options.urlMap ??= {}))
+    const urlMap = (options.urlMap ??= {})
+    refifyUrls(
+      ast,
+      urlMap,
+      typeof options.refifyUrls === 'object' ? options.refifyUrls : undefined,
+    )
+    const refTable = options.emitRefTable && createRefTable(ast, urlMap)
+    if (refTable) {
+      ast.push(refTable)
+    }
   }
-  return markdownASTToString(ast, options)
+  return ast
 }
 
 /**
@@ -113,10 +233,29 @@ export function findAllInMarkdownAST(
 
 // Re-export core functions for advanced usage
 export {
+  astToHtml,
+  chunkMarkdownAST,
+  cleanUrl,
+  conversionPresets,
+  createSiteProfile,
+  derefifyUrls,
+  estimateTokens,
   extractMetaData,
+  findBoilerplate,
   findMainContent,
+  findSourceMapEntries,
   htmlToMarkdownAST,
   markdownASTToString,
+  markdownToAST,
+  mergeContentRegions,
+  rankContentCandidates,
   refifyUrls,
+  registerTranslator,
+  removeBoilerplate,
+  resolveConversionOptions,
+  scoreMainContent,
+  stripTemplateBlocks,
+  transform,
+  visit,
   wrapMainContent,
 }
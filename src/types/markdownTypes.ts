@@ -13,6 +13,43 @@ export declare namespace SemanticMarkdownAST {
     type: 'strikethrough'
     content: string | Node[]
   }
+  // Define inline semantic elements (like sup, kbd, abbr)
+  export type InlineSemanticNode = {
+    type: 'inlineSemantic'
+    htmlType:
+      | 'abbr'
+      | 'cite'
+      | 'ins'
+      | 'kbd'
+      | 'q'
+      | 'ruby'
+      | 'small'
+      | 'sub'
+      | 'sup'
+      | 'u'
+    content: Node[]
+    /**
+     * The expansion of an abbreviation, from its `title` attribute.
+     */
+    title?: string
+    /**
+     * The text of a ruby annotation's `<rt>` elements.
+     */
+    annotation?: string
+  }
+  // Define footnotes
+  export type FootnoteReferenceNode = {
+    type: 'footnoteReference'
+    /**
+     * The label of the referenced footnote, like `1` in `[^1]`.
+     */
+    label: string
+  }
+  export type FootnoteDefinitionNode = {
+    type: 'footnoteDefinition'
+    label: string
+    content: Node[]
+  }
   // Define heading levels
   export type HeadingNode = {
     type: 'heading'
@@ -24,22 +61,74 @@ export declare namespace SemanticMarkdownAST {
     type: 'link'
     href: string
     content: Node[]
+    /**
+     * The ID of the link in the `interactiveElements` map, when
+     * `indexInteractiveElements` is enabled.
+     */
+    elementId?: string
   }
   export type ImageNode = {
     type: 'image'
     src: string
     alt?: string
+    title?: string
+    width?: number
+    height?: number
+    /**
+     * The alternative sources of a `<picture>` element.
+     */
+    sources?: MediaSource[]
   }
   // Define lists
   export type ListItemNode = {
     type: 'listItem'
     content: Node[]
+    /**
+     * The state of a task list item's checkbox, or undefined if the item is
+     * not a task.
+     */
+    checked?: boolean
+    /**
+     * Whether the item continues the previous item, like the later pieces
+     * of an item split by `chunkMarkdownAST`. It's rendered without a
+     * marker.
+     */
+    continued?: boolean
+    source?: NodeSource
   }
   export type ListNode = {
     type: 'list'
     ordered: boolean
+    /**
+     * The number of the first item in an ordered list. Defaults to 1, or to
+     * the number of items if the list is reversed.
+     */
+    start?: number
+    /**
+     * Whether an ordered list is numbered in descending order.
+     */
+    reversed?: boolean
     items: ListItemNode[]
   }
+  // Define definition lists
+  export type DefinitionTermNode = {
+    type: 'definitionTerm'
+    content: Node[]
+    source?: NodeSource
+  }
+  export type DefinitionDescriptionNode = {
+    type: 'definitionDescription'
+    content: Node[]
+    source?: NodeSource
+  }
+  export type DefinitionListNode = {
+    type: 'definitionList'
+    /**
+     * The terms and descriptions, in document order. Each group of terms is
+     * followed by its descriptions.
+     */
+    items: (DefinitionTermNode | DefinitionDescriptionNode)[]
+  }
   // Define tables
   export type TableCellNode = {
     type: 'tableCell'
@@ -47,10 +136,12 @@ export declare namespace SemanticMarkdownAST {
     colId?: string // Add column ID to TableCell
     colspan?: number
     rowspan?: number
+    source?: NodeSource
   }
   export type TableRowNode = {
     type: 'tableRow'
     cells: TableCellNode[]
+    source?: NodeSource
   }
   export type TableNode = {
     type: 'table'
@@ -64,6 +155,15 @@ export declare namespace SemanticMarkdownAST {
     content: string
     inline: boolean
   }
+  // Define math
+  export type MathNode = {
+    type: 'math'
+    /**
+     * The TeX source of the expression.
+     */
+    content: string
+    inline: boolean
+  }
   // Define blockquotes
   export type BlockquoteNode = {
     type: 'blockquote'
@@ -92,16 +192,142 @@ export declare namespace SemanticMarkdownAST {
       | 'time'
     content: Node[]
   }
+  // Define interactive elements (ARIA widgets)
+  export type InteractiveNode = {
+    type: 'interactive'
+    /**
+     * The ID of the element in the `interactiveElements` map.
+     */
+    elementId: string
+    /**
+     * The ARIA role of the element, or its tag name if it has none.
+     */
+    role: string
+    content: Node[]
+  }
+  // Define form controls
+  export type FormControlNode = {
+    type: 'formControl'
+    /**
+     * The type of an `<input>` (like `text`, `email` or `checkbox`), the type
+     * of a `<button>` (`submit`, `reset` or `button`), or `select` or
+     * `textarea`.
+     */
+    kind: string
+    name?: string
+    /**
+     * The text of the associated `<label>` elements, or the `aria-label`,
+     * `placeholder` or `title` attribute. For buttons, their text.
+     */
+    label?: string
+    /**
+     * The current value. Omitted for password fields, checkboxes and radio
+     * buttons, and for select boxes, whose options are listed instead.
+     */
+    value?: string
+    checked?: boolean
+    options?: FormControlOption[]
+    multiple?: boolean
+    required?: boolean
+    disabled?: boolean
+    /**
+     * The ID of the control in the `interactiveElements` map, when
+     * `indexInteractiveElements` is enabled.
+     */
+    elementId?: string
+  }
+  export type FormControlOption = {
+    label: string
+    value: string
+    selected: boolean
+    disabled?: boolean
+  }
+  export type FieldsetNode = {
+    type: 'fieldset'
+    legend?: string
+    content: Node[]
+  }
+  export type MediaSource = {
+    src: string
+    /**
+     * The MIME type of the source.
+     */
+    type?: string
+    /**
+     * The media query that selects the source.
+     */
+    media?: string
+  }
+  export type MediaTrack = {
+    src: string
+    /**
+     * One of `subtitles`, `captions`, `descriptions`, `chapters` or
+     * `metadata`.
+     */
+    kind: string
+    srclang?: string
+    label?: string
+  }
   export type VideoNode = {
     type: 'video'
+    /**
+     * The `src` attribute, or the first source. For embedded players, the
+     * URL of the video's page.
+     */
     src: string
     poster?: string
     controls?: boolean
+    /**
+     * Every `<source>` of the video, including the one used as `src`.
+     */
+    sources?: MediaSource[]
+    tracks?: MediaTrack[]
+    width?: number
+    height?: number
+    title?: string
+    /**
+     * The video platform of an embedded player, like `youtube` or `vimeo`.
+     */
+    provider?: string
+  }
+  export type AudioNode = {
+    type: 'audio'
+    src: string
+    controls?: boolean
+    sources?: MediaSource[]
+    tracks?: MediaTrack[]
+    title?: string
+  }
+  /**
+   * An `<iframe>`, `<embed>` or `<object>` that isn't a recognized video.
+   */
+  export type EmbedNode = {
+    type: 'embed'
+    htmlType: 'iframe' | 'embed' | 'object'
+    src: string
+    /**
+     * The MIME type of the embedded resource.
+     */
+    mimeType?: string
+    width?: number
+    height?: number
+    title?: string
   }
   export type TextNode = {
     type: 'text'
     content: string
   }
+  // Define paragraphs and breaks
+  export type ParagraphNode = {
+    type: 'paragraph'
+    content: Node[]
+  }
+  export type LineBreakNode = {
+    type: 'lineBreak'
+  }
+  export type ThematicBreakNode = {
+    type: 'thematicBreak'
+  }
 
   export type MetaDataNode = {
     type: 'meta'
@@ -125,22 +351,234 @@ export declare namespace SemanticMarkdownAST {
     }
   }
 
-  export type Node =
+  /**
+   * The DOM element a node was created from, added by `htmlToMarkdownAST`
+   * when `enableSourceTracking` is enabled.
+   */
+  export type NodeSource = {
+    element: Element
+    /**
+     * A CSS selector that matches the element, computed on access.
+     */
+    readonly selector: string
+    /**
+     * An XPath expression that matches the element, computed on access.
+     */
+    readonly xpath: string
+  }
+
+  export type Node = (
     | TextNode
+    | ParagraphNode
+    | LineBreakNode
+    | ThematicBreakNode
     | BoldNode
     | ItalicNode
     | StrikethroughNode
+    | InlineSemanticNode
+    | FootnoteReferenceNode
+    | FootnoteDefinitionNode
     | HeadingNode
     | LinkNode
+    | InteractiveNode
+    | FormControlNode
+    | FieldsetNode
     | ImageNode
     | VideoNode
+    | AudioNode
+    | EmbedNode
     | ListNode
+    | DefinitionListNode
     | TableNode
     | CodeNode
+    | MathNode
     | BlockquoteNode
     | SemanticHtmlNode
     | CustomNode
     | MetaDataNode
+  ) & { source?: NodeSource }
+
+  /**
+   * Any node in the AST, including the list items, definition terms and
+   * descriptions, table rows and table cells that only appear inside their
+   * parent node.
+   */
+  export type AnyNode =
+    | Node
+    | ListItemNode
+    | DefinitionTermNode
+    | DefinitionDescriptionNode
+    | TableRowNode
+    | TableCellNode
+}
+
+export type VisitPath = {
+  node: SemanticMarkdownAST.AnyNode
+  /**
+   * The node whose `key` property holds the node, or undefined for the nodes
+   * of the root array.
+   */
+  parent: SemanticMarkdownAST.AnyNode | undefined
+  key: 'content' | 'items' | 'rows' | 'cells' | undefined
+  /**
+   * The index of the node in its array, which changes as siblings are
+   * inserted before it.
+   */
+  readonly index: number
+  /**
+   * The ancestors of the node, starting from the root.
+   */
+  ancestors: SemanticMarkdownAST.AnyNode[]
+  /**
+   * Replace the node with the given nodes, which are not visited. Its
+   * children are not visited and `leave` is not called for it.
+   */
+  replace(...nodes: SemanticMarkdownAST.AnyNode[]): void
+  /**
+   * Remove the node. Its children are not visited and `leave` is not called
+   * for it.
+   */
+  remove(): void
+  /**
+   * Insert siblings before the node, which are not visited.
+   */
+  insertBefore(...nodes: SemanticMarkdownAST.AnyNode[]): void
+  /**
+   * Insert siblings after the node, which are not visited.
+   */
+  insertAfter(...nodes: SemanticMarkdownAST.AnyNode[]): void
+  /**
+   * Don't visit the children of the node. The `leave` callback is still
+   * called.
+   */
+  skip(): void
+  /**
+   * End the traversal.
+   */
+  stop(): void
+}
+
+export type VisitCallback = (
+  node: SemanticMarkdownAST.AnyNode,
+  path: VisitPath,
+) => void
+
+export type Visitor = {
+  /**
+   * Called before the children of a node are visited.
+   */
+  enter?: VisitCallback
+  /**
+   * Called after the children of a node are visited.
+   */
+  leave?: VisitCallback
+}
+
+export type SourceMapEntry = {
+  /**
+   * The offset of the node's first character in the Markdown output.
+   */
+  start: number
+  /**
+   * The offset after the node's last character in the Markdown output.
+   */
+  end: number
+  node: SemanticMarkdownAST.AnyNode
+  /**
+   * The DOM element the node was created from, if known.
+   */
+  element?: Element
+}
+
+/**
+ * Translates an element into AST nodes, which are pushed onto `result`.
+ * Calling `next` runs the translator it took precedence over, or the default
+ * handling if there is none.
+ */
+export type ElementTranslator<T extends Element = Element> = (
+  element: T,
+  result: Node[],
+  options: ExtractOptions | undefined,
+  indentLevel: number,
+  next: () => void,
+) => void
+
+/**
+ * A reusable set of translators. The keys of `translators` are tag names,
+ * custom element names or CSS selectors.
+ */
+export type ConversionPlugin = {
+  name?: string
+  translators: Record<string, ElementTranslator<any>>
+}
+
+/**
+ * Describes a URL passed to the `rewriteUrl` option.
+ */
+export type UrlContext = {
+  /**
+   * Whether the URL is the target of a link, the source of an image (or a
+   * poster or metadata image), or the source of a video, audio or embed.
+   */
+  kind: 'link' | 'image' | 'media'
+  /**
+   * The element with the URL. Undefined when rewriting an AST with
+   * `refifyUrls`.
+   */
+  element?: Element
+}
+
+/**
+ * A custom boilerplate rule, matching elements by CSS selector or function.
+ */
+export type BoilerplateRule = {
+  name: string
+  match: string | ((element: Element) => boolean)
+}
+
+export interface BoilerplateOptions {
+  /**
+   * The built-in rules to use. Defaults to all of them:
+   * - `'dialog'`: `<dialog>` elements and `dialog`/`alertdialog` roles.
+   * - `'overlay'`: Fixed-position elements, when their style is available.
+   * - `'pattern'`: Elements whose class or ID matches `patterns`, unless
+   *   they look like content.
+   * - `'skipLink'`: Links like "Skip to content".
+   * - `'linkDensity'`: Blocks that are mostly links, like menus.
+   */
+  rules?: ('dialog' | 'overlay' | 'pattern' | 'skipLink' | 'linkDensity')[]
+  /**
+   * Class names and IDs of boilerplate, replacing the defaults, which match
+   * the whole names of cookie banners, newsletter signups, modals, related
+   * links, share bars and ads.
+   */
+  patterns?: ContentPattern[]
+  /**
+   * Rules that run before the built-in rules.
+   */
+  customRules?: BoilerplateRule[]
+  /**
+   * The link density (link text / all text) above which a block is
+   * boilerplate. Defaults to 0.5.
+   */
+  maxLinkDensity?: number
+  /**
+   * The number of links a block needs for the link density rule. Defaults
+   * to 5.
+   */
+  minLinks?: number
+  /**
+   * A CSS selector of elements to keep, along with their ancestors.
+   */
+  keep?: string
+}
+
+export type BoilerplateMatch = {
+  element: Element
+  /**
+   * The name of the rule that matched.
+   */
+  rule: string
 }
 
 export interface ExtractOptions {
@@ -148,6 +586,29 @@ export interface ExtractOptions {
    * The domain of the website, used to create relative links for images and links.
    */
   websiteDomain?: string
+  /**
+   * The URL of the page, used to resolve relative URLs instead of the
+   * document's URL. A `<base href>` in the document is resolved against it.
+   */
+  baseUrl?: string
+  /**
+   * How to write URLs with the same origin as the base URL. Defaults to
+   * `'absolute'`. URLs that can't be resolved, like relative URLs in a
+   * document without a URL, are kept as written.
+   */
+  sameOriginUrls?: 'absolute' | 'root-relative'
+  /**
+   * Unwrap the URLs of known redirect services (like Google's `/url?q=`) and
+   * remove click-tracking query parameters (like `utm_source` and `fbclid`).
+   */
+  cleanUrls?: boolean
+  /**
+   * Rewrite the URLs of links, images and media, after they're resolved and
+   * cleaned. Return a new URL, `null` to drop it, or `undefined` to keep it.
+   * Links with dropped URLs are replaced by their content, and images and
+   * media are removed.
+   */
+  rewriteUrl?: (url: string, context: UrlContext) => string | null | undefined
   /**
    * Controls whether to include metadata extracted from the HTML head.
    * - `'basic'`: Includes standard meta tags like title, description, and keywords.
@@ -163,10 +624,47 @@ export interface ExtractOptions {
    * Whether to check elements for visibility before extracting.
    */
   excludeInvisibleElements?: boolean
+  /**
+   * Skip boilerplate like cookie banners, modals, share bars, ads and skip
+   * links, optionally with options for the rules that find it.
+   */
+  removeBoilerplate?: boolean | BoilerplateOptions
+  /**
+   * An array that receives the boilerplate skipped by `removeBoilerplate`.
+   */
+  boilerplateReport?: BoilerplateMatch[]
   /**
    * Enables adding correlational IDs to table cells in the Markdown output.
    */
   enableTableColumnTracking?: boolean
+  /**
+   * Converts footnote references (like `<sup><a href="#fn1">1</a></sup>` or
+   * links with `role="doc-noteref"`) and the notes they point to into
+   * footnote nodes. The notes are removed from where they appear and added
+   * to the end of the AST.
+   */
+  extractFootnotes?: boolean
+  /**
+   * Annotates each node with the DOM element it was created from. See
+   * `SemanticMarkdownAST.NodeSource` for details.
+   */
+  enableSourceTracking?: boolean
+  /**
+   * Assigns short IDs (`e0`, `e1`, …) to links, form controls and elements
+   * with interactive ARIA roles, in document order. They're rendered as link
+   * targets, like `[Submit](#e12)`.
+   */
+  indexInteractiveElements?: boolean
+  /**
+   * A map of IDs to the elements they were assigned to, filled in when
+   * `indexInteractiveElements` is enabled.
+   */
+  interactiveElements?: Record<string, Element>
+  /**
+   * Plugins whose translators take precedence over those registered with
+   * `registerTranslator`. Later plugins take precedence over earlier ones.
+   */
+  plugins?: ConversionPlugin[]
   /**
    * Provides a function to override the default element processing logic.
    */
@@ -185,11 +683,69 @@ export interface ExtractOptions {
   ) => Node[] | undefined
 }
 
+/**
+ * How an inline semantic element is rendered:
+ * - `'html'`: As an HTML tag, like `x<sup>2</sup>`.
+ * - `'markdown'`: As a Markdown extension, like `x^2^`, `H~2~O` or
+ *   `++inserted++`.
+ * - `'text'`: As plain text, like `x^2`, `H_2O` or `HTML (HyperText Markup
+ *   Language)`.
+ */
+export type InlineSemanticRendering = 'html' | 'markdown' | 'text'
+
+/**
+ * Labels used when rendering media. Defaults to the capitalized key, like
+ * `Video` for `video`.
+ */
+export type MediaLabels = {
+  video: string
+  audio: string
+  poster: string
+  controls: string
+  embed: string
+  track: string
+}
+
 export interface RenderOptions {
   /**
    * Include the metadata as “front matter” in the output.
    */
   emitFrontMatter?: boolean
+  /**
+   * How to render inline semantic elements like `<sup>`, `<kbd>` and
+   * `<abbr>`, either for all of them or per element type. Defaults to
+   * `'html'`.
+   */
+  inlineSemanticRendering?:
+    | InlineSemanticRendering
+    | Partial<
+        Record<
+          SemanticMarkdownAST.InlineSemanticNode['htmlType'],
+          InlineSemanticRendering
+        >
+      >
+  /**
+   * Render text links and images as references, like `[text][1]`, with
+   * their URLs in link reference definitions like `[1]: https://…`. Each
+   * URL is defined once. Defaults to `'inline'`.
+   */
+  linkStyle?: 'inline' | 'reference'
+  /**
+   * Where the link reference definitions are rendered: at the end of the
+   * document (the default), or also at the end of each section, before the
+   * next heading.
+   */
+  linkReferencePlacement?: 'document' | 'section'
+  /**
+   * The labels used when rendering media, like the `Video` in
+   * `![Video](/intro.mp4)`.
+   */
+  mediaLabels?: Partial<MediaLabels>
+  /**
+   * When provided, an entry is appended for every rendered node, mapping its
+   * range in the output to the node and its DOM element.
+   */
+  sourceMap?: SourceMapEntry[]
   /**
    * Provides a function to override the default node rendering logic.
    */
@@ -208,13 +764,304 @@ export interface RenderOptions {
   ) => string | undefined
 }
 
+export interface HtmlRenderOptions {
+  /**
+   * Wrap the output in a complete HTML document, with the metadata rendered
+   * into its `<head>`. Otherwise, metadata is omitted.
+   */
+  fullDocument?: boolean
+  /**
+   * Provides a function to override the default node rendering logic. The
+   * returned HTML is used as-is, without sanitization.
+   */
+  overrideNodeRenderer?: (
+    node: Node,
+    options: HtmlRenderOptions,
+  ) => string | undefined
+  /**
+   * Provides a function to render custom nodes. The returned HTML is used
+   * as-is, without sanitization.
+   */
+  renderCustomNode?: (
+    node: SemanticMarkdownAST.CustomNode,
+    options: HtmlRenderOptions,
+  ) => string | undefined
+}
+
+export interface MarkdownParseOptions {
+  /**
+   * The elements indexed when the Markdown was converted, used to tell
+   * which node an element ID like `[Go](#e0)` was rendered from. Without
+   * them, element IDs are parsed as links.
+   */
+  interactiveElements?: Record<string, Element>
+}
+
+export interface RefifyOptions {
+  /**
+   * Which URLs share a ref, written like `ref0://rest/of/url`. Defaults to
+   * `'auto'`, where files (URLs with an extension) share a ref per
+   * directory and other long URLs get their own ref. With `'host'`, URLs
+   * share a ref per origin, and with `'pathPrefix'`, per directory.
+   */
+  groupBy?: 'auto' | 'host' | 'pathPrefix'
+}
+
+/**
+ * Matches a class name or ID. Strings match a class name exactly or any
+ * part of an ID.
+ */
+export type ContentPattern = string | RegExp
+
+export type ContentScoringWeights = {
+  /**
+   * Added for each positive pattern that an element's class or ID matches.
+   * Defaults to 10.
+   */
+  positivePattern: number
+  /**
+   * Subtracted for each negative pattern that an element's class or ID
+   * matches. Defaults to 10.
+   */
+  negativePattern: number
+  /**
+   * The maximum score for paragraphs, at 1 per `<p>`. Defaults to 5.
+   */
+  paragraphs: number
+  /**
+   * The maximum score for text length, at 1 per `textLengthUnit`
+   * characters. Defaults to 5.
+   */
+  textLength: number
+  /**
+   * Added when the link density is below `maxLinkDensity`. Defaults to 5.
+   */
+  linkDensity: number
+  /**
+   * Added for a `data-main` or `data-content` attribute. Defaults to 10.
+   */
+  dataAttribute: number
+  /**
+   * Added for a `role` that includes `main`. Defaults to 10.
+   */
+  role: number
+}
+
+export interface ContentScoringOptions {
+  /**
+   * Elements scoring below this aren't candidates. Defaults to 20.
+   */
+  minScore?: number
+  weights?: Partial<ContentScoringWeights>
+  /**
+   * Class names and IDs of main content. Defaults to `article`, `content`,
+   * `main-container`, `main` and `main-content`.
+   */
+  positivePatterns?: ContentPattern[]
+  /**
+   * Class names and IDs of boilerplate, like `/sidebar|comments/`. Defaults
+   * to none.
+   */
+  negativePatterns?: ContentPattern[]
+  /**
+   * Scores added per tag name. Defaults to 5 for `article`, `main` and
+   * `section`.
+   */
+  tagBonuses?: Record<string, number>
+  /**
+   * Text length per point of the `textLength` score. Only elements with
+   * more text than this get that score. Defaults to 200.
+   */
+  textLengthUnit?: number
+  /**
+   * The link density (link text / all text) below which the `linkDensity`
+   * score is added. Defaults to 0.3.
+   */
+  maxLinkDensity?: number
+}
+
+export type ContentScoreFactor = {
+  factor:
+    | 'positivePattern'
+    | 'negativePattern'
+    | 'tag'
+    | 'paragraphs'
+    | 'textLength'
+    | 'linkDensity'
+    | 'dataAttribute'
+    | 'role'
+  score: number
+  /**
+   * What was matched or measured, like `class/id article` or `12 paragraphs`.
+   */
+  detail: string
+}
+
+export type ContentCandidate = {
+  element: Element
+  score: number
+  factors: ContentScoreFactor[]
+  /**
+   * Whether this candidate was picked as the main content.
+   */
+  selected: boolean
+}
+
+export type MainContentReport = {
+  /**
+   * The main content element.
+   */
+  element: Element
+  /**
+   * How the element was found: an existing `<main>` element, the best
+   * candidate, or the fallback to the body when there are no candidates.
+   */
+  method: 'main' | 'candidate' | 'fallback'
+  /**
+   * Every element that scored at least `minScore`, from best to worst.
+   * Empty when an existing `<main>` element was used.
+   */
+  candidates: ContentCandidate[]
+}
+
+/**
+ * The template blocks of a site, like its header, footer and nav, learned
+ * from several of its pages by `createSiteProfile`. It's plain JSON, so it
+ * can be saved and reused.
+ */
+export type SiteProfile = {
+  /**
+   * The number of pages the profile was learned from.
+   */
+  pages: number
+  /**
+   * The fingerprints of the blocks repeated across pages.
+   */
+  templateBlocks: string[]
+}
+
+export interface SiteProfileOptions extends ExtractOptions {
+  /**
+   * The share of pages a block must appear in to be a template block.
+   * Blocks must always appear in at least 2 pages. Defaults to 0.5.
+   */
+  threshold?: number
+}
+
 export interface ConversionOptions extends ExtractOptions, RenderOptions {
   /**
-   * Whether to convert URLs to a shorter reference format.
+   * Whether to convert URLs to a shorter reference format, optionally with
+   * `refifyUrls` options.
    */
-  refifyUrls?: boolean
+  refifyUrls?: boolean | RefifyOptions
   /**
    * A map of URL references to their original values, generated when `refifyUrls` is enabled.
    */
   urlMap?: Record<string, string>
+  /**
+   * Append a table of the refs in the output and their URLs, when
+   * `refifyUrls` is enabled.
+   */
+  emitRefTable?: boolean
+  /**
+   * Remove the template blocks of this site profile, keeping the content
+   * unique to the page.
+   */
+  siteProfile?: SiteProfile
+}
+
+export interface HtmlConversionOptions extends ConversionOptions {
+  /**
+   * Whether to extract the main content of the HTML, ignoring elements like headers and footers.
+   */
+  extractMainContent?: boolean
+  /**
+   * Options for scoring the main content candidates, when there's no
+   * `<main>` element.
+   */
+  contentScoring?: ContentScoringOptions
+  /**
+   * Merge this many of the best independent content candidates, in
+   * document order, each in its own region. Defaults to 1, which only
+   * extracts the main content.
+   */
+  mainContentCandidates?: number
+  /**
+   * Provides an override for the DOMParser object used to parse the HTML.
+   */
+  overrideDOMParser?: DOMParser
+  /**
+   * Presets to apply before the other options, in order.
+   */
+  preset?: ConversionPreset | ConversionPreset[]
+  /**
+   * Options from a config file, including per-hostname overrides for the
+   * `baseUrl`. The other options take precedence over them.
+   */
+  config?: ConversionConfig
+}
+
+/**
+ * A named bundle of conversion options:
+ * - `'llm-compact'`: The main content with few tokens, without boilerplate,
+ *   metadata or long URLs.
+ * - `'readable'`: The main content, without boilerplate, with footnotes,
+ *   Markdown extensions and reference links.
+ * - `'archival'`: The whole page, with extended metadata as front matter,
+ *   footnotes and absolute URLs.
+ */
+export type ConversionPreset = 'llm-compact' | 'readable' | 'archival'
+
+export interface ConversionConfig
+  extends Omit<HtmlConversionOptions, 'config'> {
+  /**
+   * Options for pages whose hostname matches a pattern, applied over the
+   * other options. Patterns like `*.wikipedia.org` match a domain and its
+   * subdomains. More specific patterns are applied last.
+   */
+  hosts?: Record<string, Omit<ConversionConfig, 'hosts'>>
+}
+
+export interface ChunkOptions extends RenderOptions {
+  /**
+   * The maximum number of tokens in a chunk, including its title and
+   * breadcrumbs. Defaults to 512.
+   */
+  maxTokens?: number
+  /**
+   * Counts the tokens in a string. Defaults to `estimateTokens`, which
+   * assumes 4 characters per token.
+   */
+  tokenizer?: (text: string) => number
+  /**
+   * Headings at this level or above always start a new chunk. Defaults to
+   * 2. Use 0 to only split when the budget is reached.
+   */
+  splitHeadingLevel?: number
+  /**
+   * Prefix each chunk with the page title from the metadata. Defaults to
+   * true.
+   */
+  includeTitle?: boolean
+  /**
+   * Prefix each chunk with the headings it belongs to. Defaults to true.
+   */
+  includeBreadcrumbs?: boolean
+}
+
+export type MarkdownChunk = {
+  /**
+   * The rendered chunk, including its title and breadcrumbs.
+   */
+  markdown: string
+  tokens: number
+  /**
+   * The text of the headings the chunk belongs to, from the top level down.
+   */
+  breadcrumbs: string[]
+  /**
+   * The nodes in the chunk. Nodes that were too large for a chunk are
+   * replaced by pieces of them.
+   */
+  nodes: Node[]
 }
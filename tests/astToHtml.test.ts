@@ -0,0 +1,149 @@
+import { JSDOM } from 'jsdom'
+import {
+  type ConversionOptions,
+  type HtmlRenderOptions,
+  astToHtml,
+  htmlToMarkdownAST,
+} from '../src'
+
+describe('AST to HTML rendering', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function convert(
+    html: string,
+    options?: HtmlRenderOptions,
+    extractOptions?: ConversionOptions,
+  ) {
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    const element = extractOptions?.includeMetaData
+      ? doc.documentElement
+      : doc.body
+    return astToHtml(htmlToMarkdownAST(element, extractOptions), options)
+  }
+
+  test('renders paragraphs and inline formatting', () => {
+    const html =
+      '<div class="wrapper"><p><strong>Bold</strong>, <em>italic</em> and <a href="/x">a link</a>.</p><p>Line<br>break</p></div>'
+    expect(convert(html)).toBe(
+      '<p><strong>Bold</strong>, <em>italic</em> and <a href="/x">a link</a>.</p>\n' +
+        '<p>Line<br>\nbreak</p>',
+    )
+  })
+
+  test('renders headings, lists and code', () => {
+    const html = `
+      <h2>Title</h2>
+      <ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>
+      <pre><code class="language-js">a &lt; b</code></pre>
+    `
+    expect(convert(html)).toBe(
+      '<h2>Title</h2>\n' +
+        '<ul>\n<li>One</li>\n<li>Two\n<ol>\n<li>Nested</li>\n</ol></li>\n</ul>\n' +
+        '<pre><code class="language-js">a &lt; b</code></pre>',
+    )
+  })
+
+  test('renders task lists, list numbering and definition lists', () => {
+    const html = `
+      <ol start="3" reversed><li>Three</li></ol>
+      <ul><li><input type="checkbox" checked> Done</li></ul>
+      <dl><dt>Term</dt><dd>Description</dd></dl>
+    `
+    expect(convert(html)).toBe(
+      '<ol start="3" reversed>\n<li>Three</li>\n</ol>\n' +
+        '<ul>\n<li><input type="checkbox" disabled checked> Done</li>\n</ul>\n' +
+        '<dl>\n<dt>Term</dt>\n<dd>Description</dd>\n</dl>',
+    )
+  })
+
+  test('renders tables with headers and merged cells', () => {
+    const html = `
+      <table>
+        <tr><th>A</th><th>B</th></tr>
+        <tr><td colspan="2">Wide</td></tr>
+        <tr><td rowspan="2">Tall</td><td>1</td></tr>
+      </table>
+    `
+    expect(convert(html)).toBe(
+      '<table>\n' +
+        '<thead>\n<tr><th>A</th><th>B</th></tr>\n</thead>\n' +
+        '<tbody>\n<tr><td colspan="2">Wide</td></tr>\n<tr><td rowspan="2">Tall</td><td>1</td></tr>\n</tbody>\n' +
+        '</table>',
+    )
+  })
+
+  test('renders semantic elements and video', () => {
+    const html =
+      '<nav><a href="/">Home</a></nav><video src="/v.mp4" poster="/p.png" controls></video>'
+    expect(convert(html)).toBe(
+      '<nav>\n<p><a href="/">Home</a></p>\n</nav>\n' +
+        '<video src="/v.mp4" poster="/p.png" controls></video>',
+    )
+  })
+
+  test('restores text escaped for Markdown', () => {
+    expect(convert('<p>1 * 2 &lt; [3] &amp; #4</p>')).toBe(
+      '<p>1 * 2 &lt; [3] &amp; #4</p>',
+    )
+  })
+
+  test('sanitizes urls', () => {
+    expect(
+      astToHtml([
+        {
+          type: 'link',
+          href: ' javascript:alert(1)',
+          content: [{ type: 'text', content: 'x' }],
+        },
+        { type: 'image', src: 'data:image/png;base64,AAAA', alt: '"a"' },
+        { type: 'image', src: 'data:text/html,<script>', alt: '' },
+      ]),
+    ).toBe(
+      '<p><a>x</a><img src="data:image/png;base64,AAAA" alt="&quot;a&quot;"><img alt=""></p>',
+    )
+  })
+
+  test('renders a full document with metadata', () => {
+    const html = `
+      <html><head>
+        <title>Page</title>
+        <meta name="description" content="About">
+        <meta property="og:title" content="OG">
+      </head><body><h1>Page</h1></body></html>
+    `
+    expect(
+      convert(html, { fullDocument: true }, { includeMetaData: 'extended' }),
+    ).toBe(
+      '<!doctype html>\n<html>\n<head>\n<meta charset="utf-8">\n' +
+        '<title>Page</title>\n' +
+        '<meta name="description" content="About">\n' +
+        '<meta property="og:title" content="OG">\n' +
+        '</head>\n<body>\n<h1>Page</h1>\n</body>\n</html>\n',
+    )
+  })
+
+  test('supports override and custom node hooks', () => {
+    const options: HtmlRenderOptions = {
+      overrideNodeRenderer: node => {
+        if (node.type === 'heading') {
+          return '<h1 class="title">Custom</h1>'
+        }
+      },
+      renderCustomNode: node => `<x-widget>${node.content}</x-widget>`,
+    }
+    expect(
+      astToHtml(
+        [
+          { type: 'heading', level: 2, content: 'Title' },
+          { type: 'custom', content: 'data' },
+        ],
+        options,
+      ),
+    ).toBe('<h1 class="title">Custom</h1>\n<x-widget>data</x-widget>')
+  })
+})
@@ -0,0 +1,162 @@
+import {
+  type SemanticMarkdownAST,
+  findAllInMarkdownAST,
+  findInMarkdownAST,
+  markdownASTToString,
+  refifyUrls,
+  transform,
+  visit,
+} from '../src'
+
+type Node = SemanticMarkdownAST.Node
+
+describe('AST traversal', () => {
+  const link = (href: string, text: string): Node => ({
+    type: 'link',
+    href,
+    content: [{ type: 'text', content: text }],
+  })
+
+  function createAST(): Node[] {
+    return [
+      {
+        type: 'heading',
+        level: 2,
+        content: [link('https://example.com/a/b/c/heading', 'Heading')],
+      },
+      {
+        type: 'bold',
+        content: [{ type: 'italic', content: [link('/bold', 'Bold')] }],
+      },
+      {
+        type: 'table',
+        rows: [
+          {
+            type: 'tableRow',
+            cells: [
+              { type: 'tableCell', content: [link('/cell', 'Cell')] },
+              { type: 'tableCell', content: 'text' },
+            ],
+          },
+        ],
+      },
+      {
+        type: 'list',
+        ordered: false,
+        items: [{ type: 'listItem', content: [link('/item', 'Item')] }],
+      },
+    ]
+  }
+
+  test('finds nodes inside headings, formatting and table cells', () => {
+    const ast = createAST()
+    const links = findAllInMarkdownAST(ast, _ => _.type === 'link')
+    expect(links.map(_ => _.type === 'link' && _.href)).toEqual([
+      'https://example.com/a/b/c/heading',
+      '/bold',
+      '/cell',
+      '/item',
+    ])
+    expect(findInMarkdownAST(ast, _ => _.type === 'italic')).toBe(
+      (ast[1] as SemanticMarkdownAST.BoldNode).content[0],
+    )
+  })
+
+  test('refifies urls inside headings', () => {
+    const ast = createAST()
+    expect(refifyUrls(ast, {})).toEqual({
+      'https://example.com/a/b/c/heading': 'ref0',
+    })
+    expect(markdownASTToString(ast.slice(0, 1))).toBe(
+      '\n## [Heading](ref0)\n\n',
+    )
+  })
+
+  test('provides enter and leave callbacks with path info', () => {
+    const events: string[] = []
+    visit(createAST().slice(2, 3), {
+      enter(node, path) {
+        events.push(
+          `enter ${node.type} ${path.key ?? '-'}[${path.index}] ` +
+            path.ancestors.map(_ => _.type).join('/'),
+        )
+        if (node.type === 'link') {
+          path.skip()
+        }
+      },
+      leave(node, path) {
+        events.push(`leave ${node.type} parent=${path.parent?.type ?? '-'}`)
+      },
+    })
+    expect(events).toEqual([
+      'enter table -[0] ',
+      'enter tableRow rows[0] table',
+      'enter tableCell cells[0] table/tableRow',
+      'enter link content[0] table/tableRow/tableCell',
+      'leave link parent=tableCell',
+      'leave tableCell parent=tableRow',
+      'enter tableCell cells[1] table/tableRow',
+      'leave tableCell parent=tableRow',
+      'leave tableRow parent=table',
+      'leave table parent=-',
+    ])
+  })
+
+  test('replaces, removes and inserts nodes', () => {
+    const ast: Node[] = [
+      { type: 'text', content: 'a' },
+      { type: 'text', content: 'b' },
+      { type: 'text', content: 'c' },
+    ]
+    const visited: string[] = []
+    visit(ast, (node, path) => {
+      if (node.type !== 'text') {
+        return
+      }
+      visited.push(node.content)
+      if (node.content === 'a') {
+        path.insertBefore({ type: 'text', content: 'before' })
+        path.insertAfter({ type: 'text', content: 'after' })
+      } else if (node.content === 'b') {
+        path.remove()
+      } else if (node.content === 'c') {
+        path.replace(
+          { type: 'text', content: 'c1' },
+          { type: 'text', content: 'c2' },
+        )
+      }
+    })
+    expect(visited).toEqual(['a', 'b', 'c'])
+    expect(ast.map(_ => _.type === 'text' && _.content)).toEqual([
+      'before',
+      'a',
+      'after',
+      'c1',
+      'c2',
+    ])
+  })
+
+  test('transforms nodes bottom-up', () => {
+    const ast = transform(createAST(), node => {
+      if (node.type === 'link') {
+        return node.content
+      }
+      if (node.type === 'italic') {
+        return null
+      }
+    })
+    expect(findInMarkdownAST(ast, _ => _.type === 'link')).toBeUndefined()
+    expect(ast[0]).toEqual({
+      type: 'heading',
+      level: 2,
+      content: [{ type: 'text', content: 'Heading' }],
+    })
+    expect(ast[1]).toEqual({ type: 'bold', content: [] })
+  })
+
+  test('cannot modify the siblings of a root node', () => {
+    expect(() =>
+      visit({ type: 'text', content: 'a' }, (_, path) => path.remove()),
+    ).toThrow('Cannot modify the siblings of a root node')
+  })
+})
@@ -0,0 +1,103 @@
+import { JSDOM } from 'jsdom'
+import {
+  type BoilerplateMatch,
+  convertElementToMarkdown,
+  findBoilerplate,
+  removeBoilerplate,
+} from '../src'
+
+describe('Boilerplate removal', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html').body
+  }
+
+  const html = `
+    <a href="#content" class="visually-hidden">Skip to content</a>
+    <div id="cookie-banner"><p>We use cookies.</p><button>Accept</button></div>
+    <ul class="menu">
+      <li><a href="/">Home</a></li>
+      <li><a href="/news">News</a></li>
+      <li><a href="/sports">Sports</a></li>
+      <li><a href="/culture">Culture</a></li>
+      <li><a href="/about">About</a></li>
+    </ul>
+    <article id="content">
+      <h1>Title</h1>
+      <p>The story, with <a href="/source">a source</a>.</p>
+      <div class="share-bar"><a href="/share/x">Share</a></div>
+    </article>
+    <aside class="related-articles"><p>More stories</p></aside>
+    <div role="dialog"><p>Subscribe to our newsletter!</p></div>
+    <div style="position: fixed; bottom: 0">Chat with us</div>
+  `
+
+  test('skips boilerplate and reports it', () => {
+    const boilerplateReport: BoilerplateMatch[] = []
+    const markdown = convertElementToMarkdown(parse(html), {
+      removeBoilerplate: true,
+      boilerplateReport,
+    })
+    expect(markdown.trim()).toBe(
+      '# Title\n\nThe story, with [a source](/source).',
+    )
+    expect(
+      boilerplateReport.map(_ => [_.element.tagName.toLowerCase(), _.rule]),
+    ).toEqual([
+      ['a', 'skipLink'],
+      ['div', 'pattern'],
+      ['ul', 'linkDensity'],
+      ['div', 'pattern'],
+      ['aside', 'pattern'],
+      ['div', 'dialog'],
+      ['div', 'overlay'],
+    ])
+  })
+
+  test('does not match content by its class names', () => {
+    const body = parse(`
+      <article class="post type-post category-social-media">
+        <p>Social media post.</p>
+      </article>
+      <div class="entry no-ads"><p>Entry without ads.</p></div>
+      <div class="post tag-newsletter"><p>Newsletter post.</p></div>
+      <div class="article shareholder-letter"><p>Dear shareholders.</p></div>
+      <div class="related"><p>One.</p><p>Two.</p><p>Three.</p></div>
+      <div class="social-share"><a href="/share">Share</a></div>
+      <div class="ad-slot">Ad</div>
+    `)
+    expect(
+      findBoilerplate(body).map(_ => _.element.getAttribute('class')),
+    ).toEqual(['social-share', 'ad-slot'])
+
+    const page = parse(`
+      <div id="modal">A long story that was put in a modal.</div>
+      <div id="popup">A popup.</div>
+    `)
+    expect(findBoilerplate(page).map(_ => _.element.id)).toEqual(['popup'])
+  })
+
+  test('uses custom rules and options', () => {
+    const body = parse(html)
+    const options = {
+      rules: ['pattern' as const],
+      patterns: [/cookie/],
+      customRules: [{ name: 'menu', match: 'ul.menu' }],
+      keep: '.share-bar',
+    }
+    expect(
+      findBoilerplate(body, options).map(_ => [_.element.tagName, _.rule]),
+    ).toEqual([
+      ['DIV', 'pattern'],
+      ['UL', 'menu'],
+    ])
+    removeBoilerplate(body, options)
+    expect(body.querySelector('#cookie-banner, ul')).toBeNull()
+  })
+})
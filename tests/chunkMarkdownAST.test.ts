@@ -0,0 +1,113 @@
+import { JSDOM } from 'jsdom'
+import {
+  type ChunkOptions,
+  chunkMarkdownAST,
+  estimateTokens,
+  htmlToMarkdownAST,
+} from '../src'
+
+describe('Chunking', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function chunk(html: string, options?: ChunkOptions) {
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    const ast = htmlToMarkdownAST(doc.documentElement, {
+      includeMetaData: 'basic',
+    })
+    return chunkMarkdownAST(ast, options)
+  }
+
+  // Count words, so budgets are easy to reason about.
+  const tokenizer = (text: string) => text.split(/\s+/).filter(Boolean).length
+
+  test('prefixes chunks with the title and heading breadcrumbs', () => {
+    const chunks = chunk(
+      `<head><title>Guide</title></head><body>
+        <h1>Intro</h1><p>Welcome.</p>
+        <h2>Setup</h2><p>Install it.</p>
+        <h3>Linux</h3><p>Use apt.</p>
+        <h2>Usage</h2><p>Run it.</p>
+      </body>`,
+    )
+    expect(chunks.map(_ => _.markdown)).toEqual([
+      'Guide\n\n# Intro\n\nWelcome.',
+      'Guide > Intro\n\n## Setup\n\nInstall it.\n\n### Linux\n\nUse apt.',
+      'Guide > Intro\n\n## Usage\n\nRun it.',
+    ])
+    expect(chunks[1].breadcrumbs).toEqual(['Intro'])
+    expect(chunks[1].tokens).toBe(estimateTokens(chunks[1].markdown))
+  })
+
+  test('keeps blocks whole and headings with their content', () => {
+    const chunks = chunk(
+      `<body>
+        <p>one two three four</p>
+        <h3>Table</h3>
+        <table><tr><th>A</th></tr><tr><td>1</td></tr></table>
+      </body>`,
+      { maxTokens: 12, tokenizer, includeBreadcrumbs: false },
+    )
+    expect(chunks.map(_ => _.markdown)).toEqual([
+      'one two three four',
+      '### Table\n\n| A |\n| --- |\n| 1 |',
+    ])
+  })
+
+  test('splits blocks that are too large on their own', () => {
+    const rows = Array.from(
+      { length: 5 },
+      (_, i) => `<tr><td>row ${i}</td></tr>`,
+    ).join('')
+    const chunks = chunk(
+      `<body>
+        <table><tr><th>Name</th></tr>${rows}</table>
+        <ul><li>alpha beta</li><li>gamma delta</li><li>epsilon zeta</li></ul>
+        <p>a b c d e f g h i j k l m n o p</p>
+      </body>`,
+      { maxTokens: 14, tokenizer },
+    )
+    expect(chunks.map(_ => _.markdown)).toEqual([
+      '| Name |\n| --- |\n| row 0 |\n| row 1 |',
+      '| Name |\n| --- |\n| row 2 |\n| row 3 |',
+      '| Name |\n| --- |\n| row 4 |',
+      '- alpha beta\n- gamma delta\n- epsilon zeta',
+      'a b c d e f g h i j k l m n',
+      'o p',
+    ])
+    for (const { tokens } of chunks) {
+      expect(tokens).toBeLessThanOrEqual(14)
+    }
+  })
+  test('keeps chunks within the budget with breadcrumbs', () => {
+    const words = (n: number) =>
+      Array.from({ length: n }, (_, i) => `word${i}`).join(' ')
+    const html = `<head><title>A long page title</title></head><body>
+      <h1>Getting started with the library</h1>
+      <h2>Installing the package and its peers</h2>
+      <p>${words(40)}</p>
+      <ol start="5"><li>${words(60)}</li></ol>
+      <table><tr><th>Name</th></tr>${'<tr><td>some cell text</td></tr>'.repeat(12)}</table>
+    </body>`
+    for (const maxTokens of [40, 60, 90]) {
+      const chunks = chunk(html, { maxTokens })
+      expect(chunks.length).toBeGreaterThan(1)
+      for (const { tokens } of chunks) {
+        expect(tokens).toBeLessThanOrEqual(maxTokens)
+      }
+      for (const { markdown } of chunks.slice(1)) {
+        expect(markdown).toMatch(/^A long page title > Getting started/)
+      }
+    }
+
+    // The later pieces of a split list item have no marker.
+    const markdown = chunk(html, { maxTokens: 40 })
+      .map(_ => _.markdown)
+      .join('\n')
+    expect(markdown.match(/^ *\d+\./gm)).toEqual(['5.'])
+  })
+})
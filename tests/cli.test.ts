@@ -0,0 +1,141 @@
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { runCli } from '../src/cli'
+
+describe('d2m CLI', () => {
+  let dir: string
+  let stdout: string
+  let stderr: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'd2m-'))
+    stdout = ''
+    stderr = ''
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  function run(args: string[], stdin = '') {
+    // A config file in the working directory would change the output.
+    if (!args.includes('-c')) {
+      args = [...args, '--no-config']
+    }
+    return runCli(args, {
+      readStdin: async () => stdin,
+      write: text => {
+        stdout += text
+      },
+      error: text => {
+        stderr += text
+      },
+    })
+  }
+
+  test('converts stdin with conversion flags', async () => {
+    const html =
+      '<nav><a href="/">Home</a></nav><p>See <a href="https://example.com/a">A</a> and <a href="https://example.com/a">again</a>.</p>'
+    expect(
+      await run(
+        ['--exclude-tag-names', 'nav', '--link-style', 'reference'],
+        html,
+      ),
+    ).toBe(0)
+    expect(stdout).toBe(
+      'See [A][1] and [again][1].\n\n[1]: https://example.com/a\n\n',
+    )
+    expect(stderr).toBe('')
+  })
+
+  test('mirrors the input tree and reports failed inputs', async () => {
+    await mkdir(path.join(dir, 'pages/docs'), { recursive: true })
+    await writeFile(path.join(dir, 'pages/index.html'), '<h1>Home</h1>')
+    await writeFile(path.join(dir, 'pages/docs/intro.htm'), '<p>Intro</p>')
+    const outDir = path.join(dir, 'out')
+
+    expect(
+      await run([
+        path.join(dir, 'pages/**/*.htm*'),
+        path.join(dir, 'missing.html'),
+        '--out-dir',
+        outDir,
+      ]),
+    ).toBe(1)
+    expect(await readFile(path.join(outDir, 'pages/index.md'), 'utf8')).toBe(
+      '\n# Home\n\n',
+    )
+    expect(
+      await readFile(path.join(outDir, 'pages/docs/intro.md'), 'utf8'),
+    ).toBe('Intro\n\n')
+    expect(stderr).toMatch(/^d2m: .*missing\.html: ENOENT/)
+
+    expect(
+      await run([
+        path.join(dir, 'pages/docs/intro.htm'),
+        '--ast',
+        '-o',
+        path.join(outDir, 'intro.json'),
+      ]),
+    ).toBe(0)
+    expect(
+      JSON.parse(await readFile(path.join(outDir, 'intro.json'), 'utf8')),
+    ).toEqual([
+      { type: 'paragraph', content: [{ type: 'text', content: 'Intro' }] },
+    ])
+  })
+
+  test('uses a config file with host overrides', async () => {
+    const config = path.join(dir, 'd2m.config.json')
+    await writeFile(
+      config,
+      JSON.stringify({
+        preset: 'readable',
+        hosts: { '*.example.org': { linkStyle: 'inline' } },
+      }),
+    )
+    const html =
+      '<aside>Ad</aside><main><p>See <a href="https://example.com/a">A</a>.</p></main>'
+
+    expect(await run(['-c', config], html)).toBe(0)
+    expect(stdout).toBe('See [A][1].\n\n[1]: https://example.com/a\n\n')
+    stdout = ''
+    expect(
+      await run(
+        [
+          '-c',
+          config,
+          '--base-url',
+          'https://www.example.org/',
+          '-p',
+          'llm-compact',
+        ],
+        html,
+      ),
+    ).toBe(0)
+    expect(stdout).toBe('See [A](https://example.com/a).\n\n')
+
+    await writeFile(config, '{"preset": "tiny"}')
+    expect(await run(['-c', config])).toBe(2)
+    expect(stderr).toMatch(/^d2m: .*d2m\.config\.json: unknown preset "tiny"/)
+  })
+
+  test('rejects invalid arguments', async () => {
+    stderr = ''
+    expect(await run(['--link-style', 'fancy'])).toBe(2)
+    expect(stderr).toBe(
+      'd2m: --link-style must be one of: inline, reference\n' +
+        'Run "d2m --help" for usage.\n',
+    )
+    stderr = ''
+    expect(await run(['--content-scoring', '{'])).toBe(2)
+    expect(stderr).toMatch(/^d2m: --content-scoring is not valid JSON/)
+    stderr = ''
+    expect(await run(['--preset', 'tiny'])).toBe(2)
+    expect(stderr).toMatch(/^d2m: --preset must be one of: llm-compact,/)
+    stderr = ''
+    expect(await run(['a.html', 'b.html'])).toBe(2)
+    expect(stderr).toMatch(/^d2m: multiple inputs need --out-dir/)
+  })
+})
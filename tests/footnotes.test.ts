@@ -0,0 +1,63 @@
+import { JSDOM } from 'jsdom'
+import { type ConversionOptions, convertElementToMarkdown } from '../src'
+
+describe('Footnote extraction', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function convert(html: string, options?: ConversionOptions) {
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    return convertElementToMarkdown(doc.body, options)
+  }
+
+  const wikipedia = `
+    <p>Water boils at 100 °C.<sup id="cite_ref-1" class="reference"><a href="#cite_note-1">[1]</a></sup>
+      It freezes at 0 °C.<sup id="cite_ref-2"><a href="#cite_note-2">[2]</a></sup><sup id="cite_ref-1b"><a href="#cite_note-1">[1]</a></sup></p>
+    <h2>References</h2>
+    <ol class="references">
+      <li id="cite_note-1"><span class="mw-cite-backlink">^ <a href="#cite_ref-1"><b>a</b></a> <a href="#cite_ref-1b"><b>b</b></a></span> <span>Smith, <i>Physics</i>.</span></li>
+      <li id="cite_note-2"><span class="mw-cite-backlink"><a href="#cite_ref-2">^</a></span> <span>Jones.</span></li>
+    </ol>
+  `
+
+  test('extracts Wikipedia-style references', () => {
+    expect(convert(wikipedia, { extractFootnotes: true })).toBe(
+      'Water boils at 100 °C.[^1] It freezes at 0 °C.[^2][^1]\n\n' +
+        '## References\n\n' +
+        '[^1]: Smith, *Physics*.\n' +
+        '[^2]: Jones.\n',
+    )
+  })
+
+  test('extracts DPUB-ARIA footnotes', () => {
+    const html = `
+      <p>See the note<a href="#fn1" id="fnref1" role="doc-noteref"><sup>*</sup></a>.</p>
+      <section role="doc-endnotes">
+        <hr>
+        <ol><li id="fn1"><p>First paragraph.</p><p>Second paragraph. <a href="#fnref1" role="doc-backlink">↩︎</a></p></li></ol>
+      </section>
+    `
+    const options: ConversionOptions = { extractFootnotes: true, sourceMap: [] }
+    const markdown = convert(html, options)
+    expect(markdown).toBe(
+      'See the note[^1].\n\n' +
+        '[^1]: First paragraph.\n\n    Second paragraph.\n',
+    )
+    const entry = options.sourceMap!.find(
+      entry => entry.node.type === 'paragraph' && entry.start > 30,
+    )
+    expect(markdown.slice(entry?.start, entry?.end)).toBe('Second paragraph.')
+  })
+
+  test('leaves other fragment links alone', () => {
+    const html =
+      '<p>Go to <sup><a href="#top">top</a></sup> or <a href="#fn1">note</a>.</p><ol><li id="fn1">Note</li></ol><div id="top"></div>'
+    expect(convert(html, { extractFootnotes: true })).toBe(
+      convert(html, { extractFootnotes: false }),
+    )
+  })
+})
@@ -0,0 +1,93 @@
+import { JSDOM } from 'jsdom'
+import {
+  type ConversionOptions,
+  astToHtml,
+  convertElementToMarkdown,
+  htmlToMarkdownAST,
+} from '../src'
+
+describe('Form controls', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html')
+  }
+
+  function convert(html: string, options?: ConversionOptions) {
+    return convertElementToMarkdown(parse(html).body, options)
+  }
+
+  test('renders fields with their labels, values and states', () => {
+    const html = `
+      <form>
+        <label for="email">Email <span>*</span></label>
+        <input id="email" type="email" name="email" value="me@example.com" required>
+        <label>Password <input type="password" name="pw" value="secret"></label>
+        <label><input type="checkbox" name="remember" checked> Remember me</label>
+        <select name="plan" aria-label="Plan">
+          <option value="free">Free</option>
+          <option value="pro" selected>Pro</option>
+        </select>
+        <textarea name="note" placeholder="Note" disabled>Hi</textarea>
+        <button type="submit">Sign in</button>
+      </form>
+    `
+    expect(convert(html)).toBe(
+      'Email \\*: [me@example.com] (email, name=email, required)\n' +
+        'Password: [] (password, name=pw)\n' +
+        '[x] Remember me (name=remember)\n' +
+        'Plan: [Pro] (select, name=plan, options: Free | Pro)\n' +
+        'Note: [Hi] (textarea, name=note, disabled)\n' +
+        '[Sign in] (submit)\n',
+    )
+  })
+
+  test('groups fieldsets under their legend', () => {
+    const html = `
+      <fieldset>
+        <legend>Size</legend>
+        <label><input type="radio" name="size" value="s"> Small</label>
+        <label><input type="radio" name="size" value="l" checked> Large</label>
+      </fieldset>
+      <p>After</p>
+    `
+    expect(convert(html)).toBe(
+      '**Size**\n' +
+        '[ ] Small (radio, name=size)\n' +
+        '[x] Large (radio, name=size)\n\n' +
+        'After\n\n',
+    )
+  })
+
+  test('creates form control nodes', () => {
+    const doc = parse(
+      '<select name="c" multiple><option selected>A</option><option disabled>B</option></select>',
+    )
+    expect(htmlToMarkdownAST(doc.body)).toEqual([
+      {
+        type: 'formControl',
+        kind: 'select',
+        name: 'c',
+        multiple: true,
+        options: [
+          { label: 'A', value: 'A', selected: true },
+          { label: 'B', value: 'B', selected: false, disabled: true },
+        ],
+      },
+    ])
+  })
+
+  test('renders form controls as HTML', () => {
+    const doc = parse(
+      '<form><label>Name <input name="n" value="Al"></label><button>Go</button></form>',
+    )
+    expect(astToHtml(htmlToMarkdownAST(doc.body))).toBe(
+      '<p><label>Name <input type="text" name="n" value="Al"></label> <button type="submit">Go</button></p>',
+    )
+  })
+})
@@ -0,0 +1,68 @@
+import { JSDOM } from 'jsdom'
+import { convertElementToMarkdown, htmlToMarkdownAST } from '../src'
+
+describe('Image resolution', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html').body
+  }
+
+  test('picks the best srcset candidate', () => {
+    const html = `
+      <img src="/small.jpg" srcset="/small.jpg 400w, /large.jpg 1600w, /medium.jpg 800w" alt="Widths">
+      <img src="/small.jpg" srcset="/medium.jpg 800w, /large.jpg 1600w" sizes="(max-width: 600px) 100vw, 700px" alt="Sizes">
+      <img src="/a.jpg" srcset="/a.jpg, /a@3x.jpg 3x, /a@2x.jpg 2x" alt="Densities">
+      <picture>
+        <source media="(max-width: 600px)" srcset="/crop.webp">
+        <source srcset="/photo.webp 1200w" type="image/webp">
+        <img src="/photo.jpg" srcset="/photo.jpg 600w" alt="Picture">
+      </picture>
+    `
+    expect(
+      htmlToMarkdownAST(parse(html))
+        .filter(_ => _.type === 'image')
+        .map(_ => _.src),
+    ).toEqual(['/large.jpg', '/medium.jpg', '/a@3x.jpg', '/photo.webp'])
+  })
+
+  test('resolves lazy-loaded images', () => {
+    const html = `
+      <img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" data-src="/lazy.jpg" alt="Data URL">
+      <img src="/img/spacer.gif" data-lazy-src="/real.jpg" alt="Spacer">
+      <img src="/blank.gif" data-srcset="/lazy-1x.jpg 1x, /lazy-2x.jpg 2x" alt="Lazy srcset">
+      <img src="data:image/png;base64,iVBORw0KGgo=" alt="Inline">
+    `
+    expect(
+      htmlToMarkdownAST(parse(html))
+        .filter(_ => _.type === 'image')
+        .map(_ => _.src),
+    ).toEqual(['/lazy.jpg', '/real.jpg', '/lazy-2x.jpg', '-'])
+  })
+
+  test('records dimensions and titles, and falls back for missing alt', () => {
+    const html = `
+      <img src="/chart.png" width="640" height="480" title="Sales by region">
+      <img src="/icon.svg" aria-label="Settings">
+      <figure><img src="/cat.jpg"><figcaption>A sleeping cat</figcaption></figure>
+    `
+    const ast = htmlToMarkdownAST(parse(html))
+    expect(ast[0]).toEqual({
+      type: 'image',
+      src: '/chart.png',
+      alt: '',
+      width: 640,
+      height: 480,
+      title: 'Sales by region',
+    })
+    expect(ast[1]).toMatchObject({ alt: 'Settings' })
+    expect(convertElementToMarkdown(parse(html))).toContain(
+      '![A sleeping cat](/cat.jpg)',
+    )
+  })
+})
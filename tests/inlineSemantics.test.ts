@@ -0,0 +1,91 @@
+import { JSDOM } from 'jsdom'
+import {
+  type ConversionOptions,
+  astToHtml,
+  convertElementToMarkdown,
+  htmlToMarkdownAST,
+} from '../src'
+
+describe('Inline semantic elements', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  const html =
+    '<p>E = mc<sup>2</sup> and x<sub>i</sub> for <del>old</del> <ins>new</ins> ' +
+    'keys like <kbd>Ctrl</kbd> in <cite>Dune</cite>, <q>quoted</q> ' +
+    '<abbr title="HyperText Markup Language">HTML</abbr> ' +
+    '<ruby>漢<rp>(</rp><rt>kan</rt><rp>)</rp></ruby></p>'
+
+  function convert(options?: ConversionOptions) {
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    return convertElementToMarkdown(doc.body, options).trim()
+  }
+
+  test('renders HTML tags by default', () => {
+    expect(convert()).toBe(
+      'E = mc<sup>2</sup> and x<sub>i</sub> for ~~old~~ <ins>new</ins> ' +
+        'keys like <kbd>Ctrl</kbd> in <cite>Dune</cite>, <q>quoted</q> ' +
+        '<abbr title="HyperText Markup Language">HTML</abbr> ' +
+        '<ruby>漢<rt>kan</rt></ruby>',
+    )
+  })
+
+  test('renders Markdown extensions', () => {
+    expect(convert({ inlineSemanticRendering: 'markdown' })).toBe(
+      'E = mc^2^ and x~i~ for ~~old~~ ++new++ ' +
+        'keys like `Ctrl` in *Dune*, “quoted” ' +
+        'HTML (HyperText Markup Language) 漢(kan)',
+    )
+  })
+
+  test('renders plain text, per element type', () => {
+    expect(
+      convert({
+        inlineSemanticRendering: { sup: 'text', sub: 'text', kbd: 'text' },
+      }),
+    ).toBe(
+      'E = mc^2 and x_i for ~~old~~ <ins>new</ins> ' +
+        'keys like Ctrl in <cite>Dune</cite>, <q>quoted</q> ' +
+        '<abbr title="HyperText Markup Language">HTML</abbr> ' +
+        '<ruby>漢<rt>kan</rt></ruby>',
+    )
+  })
+
+  test('renders HTML from the AST', () => {
+    const doc = new dom.window.DOMParser().parseFromString(
+      '<p>x<sup>n + 1</sup> <abbr title="a &quot;b&quot;">AB</abbr></p>',
+      'text/html',
+    )
+    expect(astToHtml(htmlToMarkdownAST(doc.body))).toBe(
+      '<p>x<sup>n + 1</sup> <abbr title="a &quot;b&quot;">AB</abbr></p>',
+    )
+  })
+
+  test('keeps the text after superscripts and subscripts attached', () => {
+    const doc = new dom.window.DOMParser().parseFromString(
+      '<p>H<sub>2</sub>O and x<sup>2</sup>y</p>',
+      'text/html',
+    )
+    const ast = htmlToMarkdownAST(doc.body)
+    expect(
+      convertElementToMarkdown(doc.body, {
+        inlineSemanticRendering: 'markdown',
+      }).trim(),
+    ).toBe('H~2~O and x^2^y')
+    expect(astToHtml(ast)).toBe('<p>H<sub>2</sub>O and x<sup>2</sup>y</p>')
+  })
+
+  test('keeps the whitespace before superscripts and subscripts', () => {
+    const doc = new dom.window.DOMParser().parseFromString(
+      '<p>x <sup>2</sup> and <b>y</b> <sub>3</sub></p>',
+      'text/html',
+    )
+    expect(convertElementToMarkdown(doc.body).trim()).toBe(
+      'x <sup>2</sup> and **y** <sub>3</sub>',
+    )
+  })
+})
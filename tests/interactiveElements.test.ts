@@ -0,0 +1,73 @@
+import { JSDOM } from 'jsdom'
+import { type ConversionOptions, convertElementToMarkdown } from '../src'
+
+describe('Interactive element indexing', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html')
+  }
+
+  test('indexes links, buttons, fields and ARIA widgets', () => {
+    const doc = parse(`
+      <p>Read the <a href="/docs">docs</a> or <a>plain text</a>.</p>
+      <form>
+        <label for="q">Query</label>
+        <input id="q" name="q">
+        <input type="hidden" name="token" value="x">
+        <input type="submit" value="Search">
+        <button><b>Reset</b></button>
+      </form>
+      <div role="tab">Settings</div>
+      <div role="presentation">Static</div>
+    `)
+    const options: ConversionOptions = { indexInteractiveElements: true }
+    const markdown = convertElementToMarkdown(doc.body, options)
+    expect(markdown).toBe(
+      'Read the [docs](#e0) or [plain text]().\n\n' +
+        'Query: [](#e1) (name=q)\n' +
+        '[Search](#e2) (submit)\n' +
+        '[Reset](#e3) (submit)\n' +
+        '[Settings](#e4) Static',
+    )
+    expect(options.interactiveElements).toEqual({
+      e0: doc.querySelector('a'),
+      e1: doc.querySelector('#q'),
+      e2: doc.querySelector('[type=submit]'),
+      e3: doc.querySelector('button'),
+      e4: doc.querySelector('[role=tab]'),
+    })
+  })
+
+  test('does not index the checkboxes of task list items', () => {
+    const doc = parse(`
+      <ul>
+        <li><input type="checkbox" checked> Read <a href="/a">A</a></li>
+        <li><p><input type="checkbox"> Check <input type="checkbox" name="b"></p></li>
+      </ul>
+      <button>Done</button>
+    `)
+    const options: ConversionOptions = { indexInteractiveElements: true }
+    const markdown = convertElementToMarkdown(doc.body, options)
+    expect(markdown).toMatch(/^\n- \[x\] Read.*\(#e0\)\n- \[ \] Check\n/)
+    expect(markdown.match(/#e\d+/g)).toEqual(['#e0', '#e1', '#e2'])
+    const inputs = doc.querySelectorAll('input')
+    expect(options.interactiveElements).toEqual({
+      e0: doc.querySelector('a'),
+      e1: inputs[2],
+      e2: doc.querySelector('button'),
+    })
+  })
+
+  test('does not index elements by default', () => {
+    const doc = parse('<a href="/a">A</a><button>B</button>')
+    const options: ConversionOptions = {}
+    expect(convertElementToMarkdown(doc.body, options)).toBe('[A](/a)\n[B]\n')
+    expect(options.interactiveElements).toBeUndefined()
+  })
+})
@@ -0,0 +1,93 @@
+import { JSDOM } from 'jsdom'
+import {
+  convertHtmlToMarkdown,
+  findMainContent,
+  rankContentCandidates,
+  scoreMainContent,
+} from '../src'
+
+describe('Main content detection', () => {
+  const text =
+    'Lorem ipsum dolor sit amet, consectetur adipiscing elit. '.repeat(4)
+  const html = `
+    <div class="story content">
+      <h1>Story</h1>
+      <p>${text}</p>
+      <p>${text}</p>
+      <p>${text}</p>
+    </div>
+    <aside id="sidebar" class="widget-area">
+      <p>${text}</p>
+      <p>${text}</p>
+      <p>${text}</p>
+      <p>${text}</p>
+    </aside>
+  `
+
+  function parse(html: string) {
+    return new JSDOM(`<!doctype html><html><body>${html}</body></html>`).window
+      .document
+  }
+
+  test('reports the score breakdown of every candidate', () => {
+    const report = scoreMainContent(parse(html))
+    expect(report.method).toBe('candidate')
+    expect(report.element.className).toBe('story content')
+    expect(report.candidates).toEqual([
+      {
+        element: report.element,
+        score: 21,
+        factors: [
+          { factor: 'positivePattern', score: 10, detail: 'class/id content' },
+          { factor: 'paragraphs', score: 3, detail: '3 paragraphs' },
+          { factor: 'textLength', score: 3, detail: expect.any(String) },
+          { factor: 'linkDensity', score: 5, detail: 'link density 0.00' },
+        ],
+        selected: true,
+      },
+    ])
+
+    const main = parse('<main><p>Hello</p></main>')
+    expect(scoreMainContent(main)).toEqual({
+      element: main.querySelector('main'),
+      method: 'main',
+      candidates: [],
+    })
+  })
+
+  test('uses the scoring options', () => {
+    const document = parse(html)
+    expect(
+      findMainContent(document, {
+        positivePatterns: [/^widget-/],
+        negativePatterns: ['story'],
+        tagBonuses: { aside: 2 },
+        weights: { positivePattern: 5 },
+        minScore: 10,
+      }),
+    ).toBe(document.querySelector('aside'))
+  })
+
+  test('ranks and merges independent candidates', () => {
+    const scoring = { positivePatterns: ['content', 'sidebar'] }
+    const ranked = rankContentCandidates(parse(html), scoring)
+    expect(ranked.map(_ => [_.element.tagName, _.score, _.selected])).toEqual([
+      ['ASIDE', 23, true],
+      ['DIV', 21, false],
+    ])
+
+    const markdown = convertHtmlToMarkdown(
+      `<nav><a href="/">Home</a></nav>${html}<footer>Copyright</footer>`,
+      {
+        extractMainContent: true,
+        mainContentCandidates: 2,
+        contentScoring: scoring,
+        overrideDOMParser: new new JSDOM().window.DOMParser(),
+      },
+    )
+    expect(markdown).toMatch(
+      /^---\s+# Story\n\n(Lorem.+\n+){3}---\s+<-aside->\n(Lorem.+\n+){4}<\/-aside->\n$/,
+    )
+    expect(markdown).not.toMatch(/Home|Copyright/)
+  })
+})
@@ -3,8 +3,10 @@ import {
   convertHtmlToMarkdown,
   convertElementToMarkdown,
   type ConversionOptions,
+  markdownASTToString,
 } from '../src'
 import { _Node } from '../src/core/ElementNode'
+import type { Node } from '../src/types/markdownTypes'
 
 // Helper function to create a DOM element
 function createElement(html: string): Element {
@@ -108,6 +110,50 @@ describe('HTML to Markdown conversion', () => {
     ).toBe(expected)
   })
 
+  test('converts ordered list attributes', () => {
+    const html =
+      '<ol start="3"><li>Three</li><li>Four</li></ol><ol reversed><li>Two</li><li>One</li></ol>'
+    const expected = '3. Three\n4. Four\n\n2. Two\n1. One'
+    expect(
+      convertHtmlToMarkdown(html, {
+        overrideDOMParser: new dom.window.DOMParser(),
+      }).trim(),
+    ).toBe(expected)
+  })
+
+  test('converts task lists', () => {
+    const html = `
+      <ul>
+        <li><input type="checkbox" checked disabled> Done</li>
+        <li><p><input type="checkbox"> Todo</p></li>
+        <li>Note</li>
+      </ul>
+    `
+    const expected = '- [x] Done\n- [ ] Todo\n- Note'
+    expect(
+      convertHtmlToMarkdown(html, {
+        overrideDOMParser: new dom.window.DOMParser(),
+      }).trim(),
+    ).toBe(expected)
+  })
+
+  test('converts definition lists', () => {
+    const html = `
+      <dl>
+        <dt>HTML</dt><dt>HTML5</dt>
+        <dd>Markup language</dd>
+        <div><dt>CSS</dt><dd>Style sheets</dd><dd>Rules</dd></div>
+      </dl>
+    `
+    const expected =
+      'HTML\nHTML5\n: Markup language\n\nCSS\n: Style sheets\n: Rules'
+    expect(
+      convertHtmlToMarkdown(html, {
+        overrideDOMParser: new dom.window.DOMParser(),
+      }).trim(),
+    ).toBe(expected)
+  })
+
   test('converts links', () => {
     const html = '<a href="https://example.com">Example</a>'
     const expected = '[Example](https://example.com/)'
@@ -128,6 +174,43 @@ describe('HTML to Markdown conversion', () => {
     ).toBe(expected)
   })
 
+  test('converts links and images to references', () => {
+    const html = `
+      <p><a href="https://example.com/a">A</a>, <a href="https://example.com/b">B</a>
+      and <a href="https://example.com/a">A again</a>.</p>
+      <img src="/logo.png" alt="Logo" title="Our logo">
+      <h2>Next</h2>
+      <p><a href="https://example.com/b">B</a> and <a href="https://example.com/c">C</a></p>
+    `
+    const render = (options: ConversionOptions) =>
+      convertHtmlToMarkdown(html, {
+        ...options,
+        overrideDOMParser: new dom.window.DOMParser(),
+      })
+    expect(render({ linkStyle: 'reference' })).toBe(
+      '[A][1], [B][2] and [A again][1].\n\n' +
+        '![Logo][3]\n' +
+        '## Next\n\n' +
+        '[B][2] and [C][4]\n\n' +
+        '[1]: https://example.com/a\n' +
+        '[2]: https://example.com/b\n' +
+        '[3]: /logo.png "Our logo"\n' +
+        '[4]: https://example.com/c\n\n',
+    )
+    expect(
+      render({ linkStyle: 'reference', linkReferencePlacement: 'section' }),
+    ).toBe(
+      '[A][1], [B][2] and [A again][1].\n\n' +
+        '![Logo][3]\n\n' +
+        '[1]: https://example.com/a\n' +
+        '[2]: https://example.com/b\n' +
+        '[3]: /logo.png "Our logo"\n\n' +
+        '## Next\n\n' +
+        '[B][2] and [C][4]\n\n' +
+        '[4]: https://example.com/c\n\n',
+    )
+  })
+
   test('converts bold and italic text', () => {
     const html = '<p><strong>Bold</strong> and <em>italic</em> text</p>'
     const expected = '**Bold** and *italic* text'
@@ -453,6 +536,23 @@ describe('Custom Element Processing and Rendering', () => {
     expect(convertHtmlToMarkdown(html, options).trim()).toBe(expected)
   })
 
+  test('overrideNodeRenderer with reference links', () => {
+    const html =
+      '<h1><a href="/home">Home</a></h1><p><a href="/home">Again</a></p>'
+    const options: ConversionOptions = {
+      linkStyle: 'reference',
+      overrideNodeRenderer: (node, options) => {
+        if (node.type === 'heading') {
+          return `= ${markdownASTToString(node.content as Node[], options)} =\n\n`
+        }
+      },
+      overrideDOMParser: new dom.window.DOMParser(),
+    }
+    expect(convertHtmlToMarkdown(html, options)).toBe(
+      '= [Home][1] =\n\n[Again][1]\n\n[1]: /home\n\n',
+    )
+  })
+
   test('combination of custom processing and rendering', () => {
     const html = '<custom-element>Custom content</custom-element><h1>Title</h1>'
     const options: ConversionOptions = {
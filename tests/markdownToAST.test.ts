@@ -0,0 +1,391 @@
+import { JSDOM } from 'jsdom'
+import {
+  type SemanticMarkdownAST,
+  type ConversionOptions,
+  htmlToMarkdownAST,
+  markdownASTToString,
+  markdownToAST,
+} from '../src'
+
+describe('Markdown to AST parsing', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function render(html: string, options?: ConversionOptions) {
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    const element = options?.includeMetaData ? doc.documentElement : doc.body
+    return markdownASTToString(htmlToMarkdownAST(element, options), options)
+  }
+
+  const roundTripCases: Record<string, string> = {
+    paragraphs: '<p>First paragraph.</p><p>Second <br> paragraph.</p>',
+    headings: '<h1>Title</h1><h2>Sub <a href="/x">link</a></h2><p>Text</p>',
+    formatting:
+      '<p><strong>Bold</strong>, <em>italic <b>nested</b></em> and <s>gone</s>. <i><b>both</b></i></p>',
+    escapes: '<p>Stars * and [brackets] | pipes &lt;tags&gt; #hash</p>',
+    links:
+      '<p>See <a href="https://example.com/a b">spaced</a> and <a href="/rich"><span>rich</span><span>link</span></a></p>',
+    blockLink: '<a href="/card"><h3>Card title</h3><p>Card text</p></a>',
+    images:
+      '<p>An <img src="/a.png" alt="alt text"> and <img src="/b.png"> <img src="/c.png" alt="C" title="A &quot;title&quot;"></p>',
+    lists:
+      '<ul><li>One</li><li><b>Two</b> with <code>code</code><ol><li>Nested</li><li><p>Para 1</p><p>Para 2</p></li></ol></li><li>Three</li></ul><p>After</p>',
+    emptyListItems: '<ol><li>One</li><li></li><li>Three</li></ol>',
+    listAttributes:
+      '<ol start="5" reversed><li>Five</li><li></li><li>Three</li></ol><ul><li><input type="checkbox" checked> Done</li><li><input type="checkbox"> Todo</li></ul>',
+    definitionList: '<dl><dt>Term</dt><dd>Description</dd></dl><p>After</p>',
+    definitionListGroups:
+      '<dl><dt>Term</dt><dt>Alias</dt><dd>Description</dd><dd><p>Para</p></dd></dl><p>After</p>',
+    code: '<p>Use <code>fn()</code> here.</p><pre><code class="language-js">const a = 1\n\nconst b = 2</code></pre><p>Done</p>',
+    tables:
+      '<table><tr><th>A</th><th>B</th></tr><tr><td><b>1</b></td><td>2<br>3</td></tr><tr><td colspan="2">wide</td></tr></table>',
+    blockquote: '<blockquote><p>Quote <em>text</em></p></blockquote><p>x</p>',
+    regions:
+      '<header><nav><ul><li><a href="/">Home</a></li></ul></nav></header><main><section><p>Body</p><section><p>Inner</p></section></section></main><footer><p>Foot</p></footer>',
+    video: '<video src="/v.mp4" poster="/p.png" controls></video><p>Next</p>',
+    media:
+      '<audio controls><source src="/a.mp3"></audio><video poster="/p.png"><source src="/v.webm"><track kind="captions" srclang="en" label="English" src="/v.vtt"></video><p>Next</p>',
+    embed:
+      '<iframe src="https://youtube.com/embed/x" title="Clip"></iframe><p>Next</p>',
+    math: '<p>Inline <math><mi>x</mi><mo>+</mo><mn>1</mn></math> and</p><math display="block"><mi>y</mi></math><p>After</p>',
+    formControls:
+      '<form><label>Name <input name="n" value="Ann"></label><select name="s"><option selected>A</option><option>B</option></select><textarea name="t">Hi</textarea><button>Go</button></form>',
+    inlineSemantics: '<p>H<sub>2</sub>O and x<sup>2</sup>y <kbd>Ctrl</kbd></p>',
+    sectionAfterImage:
+      '<img src="i.png" alt="alt"><section><p>Body</p></section>',
+    rule: '<p>Above</p><hr><p>Below</p>',
+  }
+
+  for (const [name, html] of Object.entries(roundTripCases)) {
+    test(`round-trips ${name}`, () => {
+      const markdown = render(html)
+      expect(markdownASTToString(markdownToAST(markdown))).toBe(markdown)
+    })
+  }
+
+  test('round-trips table column tracking', () => {
+    const options: ConversionOptions = { enableTableColumnTracking: true }
+    const markdown = render(roundTripCases.tables, options)
+    const ast = markdownToAST(markdown)
+    expect(markdownASTToString(ast)).toBe(markdown)
+    expect(ast[0]).toMatchObject({
+      type: 'table',
+      colIds: ['col-0', 'col-1'],
+      rows: [
+        { cells: [{ colId: 'col-0' }, { colId: 'col-1' }] },
+        { cells: [{ content: '---' }, { content: '---' }] },
+        expect.anything(),
+        { cells: [{ colId: 'col-0', colspan: 2 }] },
+      ],
+    })
+  })
+
+  test('round-trips footnotes', () => {
+    const options: ConversionOptions = { extractFootnotes: true }
+    const markdown = render(
+      '<p>Text<sup><a href="#fn1" id="r1">1</a></sup> more.</p><ol><li id="fn1">The note. <a href="#r1">↩</a></li></ol>',
+      options,
+    )
+    expect(markdown).toBe('Text[^1] more.\n\n[^1]: The note.\n')
+    expect(markdownASTToString(markdownToAST(markdown), options)).toBe(markdown)
+
+    const ast: SemanticMarkdownAST.Node[] = [
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', content: 'A' },
+          { type: 'footnoteReference', label: 'a' },
+          { type: 'text', content: ' and B' },
+          { type: 'footnoteReference', label: 'long-note' },
+          { type: 'text', content: '.' },
+        ],
+      },
+      {
+        type: 'footnoteDefinition',
+        label: 'a',
+        content: [{ type: 'text', content: 'Short.' }],
+      },
+      {
+        type: 'footnoteDefinition',
+        label: 'long-note',
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', content: 'One.' }] },
+          {
+            type: 'list',
+            ordered: false,
+            items: [
+              { type: 'listItem', content: [{ type: 'text', content: 'Two' }] },
+            ],
+          },
+        ],
+      },
+    ]
+    const source = markdownASTToString(ast)
+    expect(source).toMatch(
+      /\n\[\^a\]: Short\.\n\[\^long-note\]: One\.\n\n {4}- Two\n/,
+    )
+    expect(markdownToAST(source)).toEqual(ast)
+  })
+
+  test('parses math', () => {
+    const markdown = render(roundTripCases.math)
+    expect(markdownToAST(markdown)).toEqual([
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', content: 'Inline' },
+          { type: 'math', content: 'x+1', inline: true },
+          { type: 'text', content: ' and' },
+        ],
+      },
+      { type: 'math', content: 'y', inline: false },
+      { type: 'paragraph', content: [{ type: 'text', content: 'After' }] },
+    ])
+
+    const prices = 'It costs $5 and $6, or US$7 and $ 8 $.'
+    expect(markdownToAST(prices)).toEqual([{ type: 'text', content: prices }])
+  })
+
+  test('round-trips indexed interactive elements', () => {
+    const options: ConversionOptions = { indexInteractiveElements: true }
+    const markdown = render(
+      '<ul><li><a href="/a">A</a> and <span role="button"><b>Go</b> now</span></li></ul><p>See <a href="/r"><img src="i.png" alt="I"> rich</a> or <span role="tab">Tab</span></p>',
+      options,
+    )
+    const ast = markdownToAST(markdown, options)
+    expect(markdownASTToString(ast)).toBe(markdown)
+    expect(ast).toMatchObject([
+      {
+        items: [
+          {
+            content: [
+              { type: 'link', href: '/a', elementId: 'e0' },
+              { type: 'text' },
+              {
+                type: 'interactive',
+                elementId: 'e1',
+                role: 'button',
+                content: [{ type: 'bold' }, { type: 'text', content: ' now' }],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        content: [
+          { type: 'text' },
+          { type: 'link', href: '/r', elementId: 'e2' },
+          { type: 'text' },
+          { type: 'interactive', elementId: 'e3', role: 'tab' },
+        ],
+      },
+    ])
+    expect(markdownToAST(markdown)).toMatchObject([
+      { items: [{ content: [{}, {}, { type: 'link', href: '#e1' }] }] },
+      expect.anything(),
+    ])
+  })
+
+  test('parses form controls', () => {
+    const markdown = render(
+      '<form><p>Pick <input type="checkbox" name="c" checked> Agree <input type="email" name="e" required placeholder="Mail"></p><select multiple><option selected>A, B</option><option>C</option></select><button type="reset">Clear</button></form>',
+    )
+    const ast = markdownToAST(markdown)
+    expect(markdownASTToString(ast)).toBe(markdown)
+    expect(ast).toEqual([
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', content: 'Pick' },
+          { type: 'formControl', kind: 'checkbox', name: 'c', checked: true },
+          { type: 'text', content: 'Agree' },
+          {
+            type: 'formControl',
+            kind: 'email',
+            name: 'e',
+            label: 'Mail',
+            required: true,
+          },
+        ],
+      },
+      {
+        type: 'formControl',
+        kind: 'select',
+        options: [
+          { label: 'A, B', value: 'A, B', selected: true },
+          { label: 'C', value: 'C', selected: false },
+        ],
+        multiple: true,
+      },
+      { type: 'formControl', kind: 'reset', label: 'Clear' },
+    ])
+
+    const options: ConversionOptions = { indexInteractiveElements: true }
+    const indexed = render(
+      '<ul><li><button>Go</button></li></ul><p>Name: <input name="n" value="Ann"></p>',
+      options,
+    )
+    expect(indexed).toBe('\n- [Go](#e0)\n\nName:\n[Ann](#e1) (name=n)\n\n\n')
+    const indexedAst = markdownToAST(indexed, options)
+    expect(markdownASTToString(indexedAst)).toBe(indexed)
+    expect(indexedAst).toMatchObject([
+      {
+        items: [
+          {
+            content: [{ type: 'formControl', kind: 'button', elementId: 'e0' }],
+          },
+        ],
+      },
+      {
+        content: [
+          { type: 'text' },
+          { type: 'formControl', kind: 'text', elementId: 'e1' },
+        ],
+      },
+    ])
+  })
+
+  test('parses inline semantics', () => {
+    const markdown = render(
+      '<p>Claim<sup><a href="#n">1</a></sup>, <b>x</b><sup>2</sup> and a<sub>2</sub><i>i</i> or x <sup>2</sup> <abbr title="Hyper &quot;Text&quot;">HTML</abbr> <ruby>漢<rt>kan</rt></ruby></p>',
+    )
+    expect(markdown).toBe(
+      'Claim<sup>[1](#n)</sup>, **x**<sup>2</sup> and a<sub>2</sub>*i* or x <sup>2</sup> <abbr title="Hyper &quot;Text&quot;">HTML</abbr> <ruby>漢<rt>kan</rt></ruby>\n\n',
+    )
+    const ast = markdownToAST(markdown)
+    expect(markdownASTToString(ast)).toBe(markdown)
+    expect(ast).toMatchObject([
+      {
+        type: 'paragraph',
+        content: [
+          { type: 'text', content: 'Claim' },
+          {
+            type: 'inlineSemantic',
+            htmlType: 'sup',
+            content: [{ type: 'link', href: '#n' }],
+          },
+          { type: 'text' },
+          { type: 'text' },
+          { type: 'bold' },
+          { type: 'inlineSemantic', htmlType: 'sup' },
+          { type: 'text', content: ' and a' },
+          { type: 'inlineSemantic', htmlType: 'sub' },
+          { type: 'italic' },
+          { type: 'text', content: ' or x ' },
+          { type: 'inlineSemantic', htmlType: 'sup' },
+          { type: 'text' },
+          {
+            type: 'inlineSemantic',
+            htmlType: 'abbr',
+            title: 'Hyper "Text"',
+            content: [{ type: 'text', content: 'HTML' }],
+          },
+          { type: 'text' },
+          {
+            type: 'inlineSemantic',
+            htmlType: 'ruby',
+            annotation: 'kan',
+            content: [{ type: 'text', content: '漢' }],
+          },
+        ],
+      },
+    ])
+  })
+
+  test('round-trips front matter', () => {
+    const options: ConversionOptions = {
+      includeMetaData: 'extended',
+      emitFrontMatter: true,
+    }
+    const markdown = render(
+      `<html><head>
+        <title>Page</title>
+        <meta name="description" content="About: this page">
+        <meta property="og:title" content="OG title">
+        <script type="application/ld+json">{"@context":"https://schema.org","@type":"WebPage","name":"Page"}</script>
+      </head><body><h1>Page</h1></body></html>`,
+      options,
+    )
+    const ast = markdownToAST(markdown)
+    expect(ast[0]).toEqual({
+      type: 'meta',
+      content: {
+        standard: { title: 'Page', description: 'About: this page' },
+        openGraph: { title: 'OG title' },
+        jsonLd: [{ '@type': 'WebPage', name: 'Page' }],
+      },
+    })
+    expect(markdownASTToString(ast, options)).toBe(markdown)
+  })
+
+  test('parses structure', () => {
+    const ast = markdownToAST(
+      render(
+        '<h2>Intro</h2><ul><li><a href="/a">A</a></li></ul><nav><p>Menu</p></nav>',
+      ),
+    )
+    expect(ast).toEqual([
+      {
+        type: 'heading',
+        level: 2,
+        content: [{ type: 'text', content: 'Intro' }],
+      },
+      {
+        type: 'list',
+        ordered: false,
+        items: [
+          {
+            type: 'listItem',
+            content: [
+              {
+                type: 'link',
+                href: '/a',
+                content: [{ type: 'text', content: 'A' }],
+              },
+            ],
+          },
+        ],
+      },
+      {
+        type: 'semanticHtml',
+        htmlType: 'nav',
+        content: [
+          { type: 'paragraph', content: [{ type: 'text', content: 'Menu' }] },
+        ],
+      },
+    ])
+  })
+
+  test('parses paragraphs and breaks', () => {
+    const html = '<p>First</p><p>Line<br>break</p><hr><p>Last</p>'
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    const ast = htmlToMarkdownAST(doc.body)
+    expect(markdownToAST(markdownASTToString(ast))).toEqual(ast)
+  })
+
+  test('parses task lists and list numbering', () => {
+    const html =
+      '<ol start="3" reversed><li>Three</li><li>Two</li></ol><ul><li><input type="checkbox" checked> Done</li></ul>'
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    const ast = htmlToMarkdownAST(doc.body)
+    expect(markdownToAST(markdownASTToString(ast))).toEqual(ast)
+  })
+
+  test('keeps paragraphs that start like list items', () => {
+    const html = '<p>- dash</p><p>1. not list</p><p>Line<br>2. after break</p>'
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    const ast = htmlToMarkdownAST(doc.body)
+    const markdown = markdownASTToString(ast)
+    expect(markdown).toMatch(/^\\- dash\n\n1\\\. not list\n/)
+    expect(markdownToAST(markdown)).toEqual(ast)
+
+    const listMarkdown = render(
+      '<ul><li><p>Item</p><p>3. inner</p></li></ul><p>- after</p>',
+    )
+    expect(markdownASTToString(markdownToAST(listMarkdown))).toBe(listMarkdown)
+  })
+})
@@ -0,0 +1,61 @@
+import { JSDOM } from 'jsdom'
+import { astToHtml, convertElementToMarkdown, htmlToMarkdownAST } from '../src'
+
+describe('Math conversion', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html').body
+  }
+
+  function convert(html: string) {
+    return convertElementToMarkdown(parse(html))
+  }
+
+  test('converts MathML to TeX', () => {
+    const html = `
+      <p>Euler: <math><msup><mi>e</mi><mrow><mi>i</mi><mi>π</mi></mrow></msup><mo>+</mo><mn>1</mn><mo>=</mo><mn>0</mn></math></p>
+      <math display="block">
+        <mi>x</mi><mo>=</mo>
+        <mfrac>
+          <mrow><mo>−</mo><mi>b</mi><mo>±</mo><msqrt><msup><mi>b</mi><mn>2</mn></msup><mo>−</mo><mn>4</mn><mi>a</mi><mi>c</mi></msqrt></mrow>
+          <mrow><mn>2</mn><mi>a</mi></mrow>
+        </mfrac>
+      </math>
+      <p><math><munderover><mo>∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover><msub><mi>x</mi><mi>i</mi></msub></math></p>
+    `
+    expect(convert(html)).toBe(
+      'Euler: $e^{i\\pi}+1=0$\n\n' +
+        '$$\nx=\\frac{-b\\pm\\sqrt{b^2-4ac}}{2a}\n$$\n\n' +
+        '$\\sum_{i=1}^n x_i$\n\n',
+    )
+  })
+
+  test('uses TeX annotations from KaTeX', () => {
+    const html = `
+      <p>Area <span class="katex"><span class="katex-mathml"><math><semantics><mrow><mi>π</mi><msup><mi>r</mi><mn>2</mn></msup></mrow><annotation encoding="application/x-tex">\\pi r^2</annotation></semantics></math></span><span class="katex-html" aria-hidden="true"><span class="mord">πr2</span></span></span></p>
+      <span class="katex-display"><span class="katex"><span class="katex-mathml"><math display="block"><semantics><mi>E</mi><annotation encoding="application/x-tex">E = mc^2</annotation></semantics></math></span><span class="katex-html">E=mc2</span></span></span>
+    `
+    expect(convert(html)).toBe('Area $\\pi r^2$\n\n$$\nE = mc^2\n$$\n\n')
+  })
+
+  test('uses TeX scripts from MathJax', () => {
+    const html = `
+      <p>Inline <span class="MathJax_Preview">x2</span><span class="MathJax"><span>x2</span></span><script type="math/tex">x^2</script> text</p>
+      <div class="MathJax_Display"><span class="MathJax">glyphs</span></div><script type="math/tex; mode=display">\\int_0^1 f</script>
+    `
+    expect(convert(html)).toBe('Inline $x^2$ text\n\n$$\n\\int_0^1 f\n$$\n\n')
+  })
+
+  test('renders math as HTML', () => {
+    const body = parse('<p><math><mi>x</mi><mo>&lt;</mo><mn>1</mn></math></p>')
+    expect(astToHtml(htmlToMarkdownAST(body))).toBe(
+      '<p><span class="math inline">\\(x&lt;1\\)</span></p>',
+    )
+  })
+})
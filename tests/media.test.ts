@@ -0,0 +1,123 @@
+import { JSDOM } from 'jsdom'
+import { astToHtml, convertElementToMarkdown, htmlToMarkdownAST } from '../src'
+
+describe('Media conversion', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html').body
+  }
+
+  test('captures video sources and tracks', () => {
+    const html = `
+      <video title="Intro" width="640" height="360" poster="/poster.jpg" controls>
+        <source src="/intro.webm" type="video/webm">
+        <source src="/intro.mp4" type="video/mp4">
+        <track kind="captions" src="/intro.en.vtt" srclang="en" label="English">
+        Your browser does not support video.
+      </video>
+    `
+    const ast = htmlToMarkdownAST(parse(html))
+    expect(ast).toMatchObject([
+      {
+        type: 'video',
+        src: '/intro.webm',
+        sources: [
+          { src: '/intro.webm', type: 'video/webm' },
+          { src: '/intro.mp4', type: 'video/mp4' },
+        ],
+        tracks: [
+          {
+            src: '/intro.en.vtt',
+            kind: 'captions',
+            srclang: 'en',
+            label: 'English',
+          },
+        ],
+        width: 640,
+        height: 360,
+        title: 'Intro',
+      },
+    ])
+    expect(convertElementToMarkdown(parse(html))).toBe(
+      '\n![Video: Intro](/intro.webm)\n' +
+        '![Video (video/mp4)](/intro.mp4)\n' +
+        '![Poster](/poster.jpg)\n' +
+        '[Track (captions, en): English](/intro.en.vtt)\n' +
+        'Controls: true\n\n',
+    )
+    expect(astToHtml(ast)).toBe(
+      '<video src="/intro.webm" poster="/poster.jpg" controls width="640" height="360" title="Intro">' +
+        '<source src="/intro.webm" type="video/webm">' +
+        '<source src="/intro.mp4" type="video/mp4">' +
+        '<track kind="captions" src="/intro.en.vtt" srclang="en" label="English">' +
+        '</video>',
+    )
+  })
+
+  test('converts audio, pictures and embeds', () => {
+    const html = `
+      <audio controls><source src="/song.ogg" type="audio/ogg"></audio>
+      <picture>
+        <source srcset="/photo.avif 1x, /photo@2x.avif 2x" type="image/avif">
+        <img src="/photo.jpg" alt="Photo">
+      </picture>
+      <iframe src="https://www.youtube.com/embed/dQw4w9WgXcQ?rel=0" title="Demo"></iframe>
+      <iframe src="https://player.vimeo.com/video/76979871"></iframe>
+      <iframe src="https://maps.example.com/embed?q=paris" title="Map"></iframe>
+      <object data="/report.pdf" type="application/pdf"><p>Download</p></object>
+      <object><p>Fallback</p></object>
+    `
+    const ast = htmlToMarkdownAST(parse(html))
+    expect(ast).toMatchObject([
+      { type: 'audio', src: '/song.ogg' },
+      {
+        type: 'image',
+        src: '/photo@2x.avif',
+        sources: [{ src: '/photo@2x.avif', type: 'image/avif' }],
+      },
+      {
+        type: 'video',
+        provider: 'youtube',
+        src: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      },
+      { type: 'video', provider: 'vimeo', src: 'https://vimeo.com/76979871' },
+      { type: 'embed', htmlType: 'iframe', title: 'Map' },
+      { type: 'embed', htmlType: 'object', mimeType: 'application/pdf' },
+      { type: 'paragraph' },
+    ])
+    expect(convertElementToMarkdown(parse(html))).toBe(
+      '\n![Audio](/song.ogg)\nControls: true\n\n' +
+        '![Photo](/photo@2x.avif)\n' +
+        '![Video: Demo](https://www.youtube.com/watch?v=dQw4w9WgXcQ)\n\n' +
+        '\n![Video](https://vimeo.com/76979871)\n\n' +
+        '\n[Embed: Map](https://maps.example.com/embed?q=paris)\n\n' +
+        '\n[Embed (application/pdf)](/report.pdf)\n\n' +
+        'Fallback\n\n',
+    )
+  })
+
+  test('uses custom media labels', () => {
+    const html =
+      '<video src="/clip.mp4" poster="/poster.jpg" controls></video>' +
+      '<iframe src="/widget.html"></iframe>'
+    expect(
+      convertElementToMarkdown(parse(html), {
+        mediaLabels: {
+          video: 'Vidéo',
+          poster: 'Affiche',
+          controls: 'Contrôles',
+          embed: 'Intégration',
+        },
+      }),
+    ).toBe(
+      '\n![Vidéo](/clip.mp4)\n![Affiche](/poster.jpg)\nContrôles: true\n\n' +
+        '\n[Intégration](/widget.html)\n\n',
+    )
+  })
+})
@@ -0,0 +1,93 @@
+import { JSDOM } from 'jsdom'
+import {
+  type ConversionConfig,
+  convertHtmlToMarkdown,
+  resolveConversionOptions,
+} from '../src'
+import { parseConfigJson } from '../src/config'
+
+describe('Presets and config', () => {
+  const parser = new new JSDOM().window.DOMParser()
+
+  const html = `
+    <nav><a href="/">Home</a></nav>
+    <div id="cookie-banner"><p>We use cookies.</p></div>
+    <main>
+      <h1>Title</h1>
+      <p>Text with <a href="https://example.com/a?utm_source=x">a link</a>.</p>
+      <table class="infobox"><tr><td>Born</td><td>1900</td></tr></table>
+    </main>
+  `
+
+  const config: ConversionConfig = {
+    preset: 'readable',
+    excludeTagNames: ['nav'],
+    hosts: {
+      '*.wikipedia.org': {
+        excludeTagNames: ['nav', 'table'],
+        linkStyle: 'inline',
+      },
+      'de.wikipedia.org': { preset: 'llm-compact' },
+    },
+  }
+
+  test('applies presets under explicit options', () => {
+    const markdown = convertHtmlToMarkdown(html, {
+      overrideDOMParser: parser,
+      preset: 'llm-compact',
+      refifyUrls: false,
+    })
+    expect(markdown).not.toMatch(/cookies|Home/)
+    expect(markdown).toMatch(
+      /^# Title\n\nText with \[a link\]\(https:\/\/example\.com\/a\)\./m,
+    )
+    expect(() =>
+      resolveConversionOptions({ preset: 'tiny' as 'readable' }),
+    ).toThrow('Unknown preset "tiny"')
+  })
+
+  test('applies the host overrides of a config for the base URL', () => {
+    const convert = (baseUrl?: string) =>
+      convertHtmlToMarkdown(html, {
+        overrideDOMParser: parser,
+        config,
+        baseUrl,
+      }).trim()
+
+    expect(convert('https://en.wikipedia.org/wiki/Title')).toBe(
+      '# Title\n\nText with [a link](https://example.com/a).',
+    )
+    expect(convert()).toMatch(
+      /\[a link\]\[1\]\.[\s\S]*\| Born \| 1900 \|[\s\S]*\[1\]: https:\/\/example\.com\/a$/,
+    )
+
+    const urlMap = {}
+    expect(
+      convert('https://de.wikipedia.org/wiki/Titel').replace(/\n+/g, ' '),
+    ).toBe('# Title Text with [a link](https://example.com/a).')
+    expect(
+      resolveConversionOptions({ config, urlMap }, 'https://de.wikipedia.org'),
+    ).toMatchObject({
+      excludeTagNames: ['nav', 'table'],
+      refifyUrls: true,
+      linkStyle: 'inline',
+      urlMap,
+    })
+  })
+
+  test('parses regular expressions in JSON pattern lists only', () => {
+    expect(
+      parseConfigJson(`{
+        "baseUrl": "/docs/",
+        "mediaLabels": { "video": "/clip/" },
+        "contentScoring": { "negativePatterns": ["/comments/i", "sidebar"] },
+        "removeBoilerplate": { "patterns": ["/promo/"] }
+      }`),
+    ).toEqual({
+      baseUrl: '/docs/',
+      mediaLabels: { video: '/clip/' },
+      contentScoring: { negativePatterns: [/comments/i, 'sidebar'] },
+      removeBoilerplate: { patterns: [/promo/] },
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { JSDOM } from 'jsdom'
+import { convertElementToMarkdown, createSiteProfile } from '../src'
+
+describe('Site profiles', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function page(title: string, content: string, active = '') {
+    return new dom.window.DOMParser().parseFromString(
+      `
+        <header>
+          <a href="/">Example</a>
+          <nav><a href="/news"${active === 'news' ? ' class="active"' : ''}>News</a> <a href="/about">About</a></nav>
+        </header>
+        <h1>${title}</h1>
+        ${content}
+        <p>Share   this article</p>
+        <footer><p>© Example</p><p>Updated ${title}</p></footer>
+      `,
+      'text/html',
+    )
+  }
+
+  test('strips the blocks repeated across pages', () => {
+    const profile = createSiteProfile([
+      page('One', '<p>First story.</p>', 'news'),
+      page('Two', '<p>Second story.</p><p>Read more below.</p>'),
+      page('Three', '<p>Third story.</p>'),
+    ])
+    expect(profile.pages).toBe(3)
+    expect(JSON.parse(JSON.stringify(profile))).toEqual(profile)
+
+    const markdown = convertElementToMarkdown(
+      page('Four', '<p>Fourth story.</p><p>Read more below.</p>').body,
+      { siteProfile: profile },
+    )
+    expect(markdown.trim()).toBe(
+      '# Four\n\nFourth story.\n\nRead more below.\n\n\n\n' +
+        '<-footer->\nUpdated Four\n\n\n\n</-footer->',
+    )
+  })
+})
@@ -0,0 +1,126 @@
+import { JSDOM } from 'jsdom'
+import {
+  type ConversionOptions,
+  type SemanticMarkdownAST,
+  type SourceMapEntry,
+  findSourceMapEntries,
+  htmlToMarkdownAST,
+  markdownASTToString,
+} from '../src'
+
+describe('Source mapping', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html')
+  }
+
+  function render(doc: Document, options?: ConversionOptions) {
+    const sourceMap: SourceMapEntry[] = []
+    const ast = htmlToMarkdownAST(doc.body, {
+      ...options,
+      enableSourceTracking: true,
+    })
+    const markdown = markdownASTToString(ast, { ...options, sourceMap })
+    return { ast, markdown, sourceMap }
+  }
+
+  test('annotates nodes with their source element', () => {
+    const doc = parse(
+      '<div id="app"><h2>Title</h2><ul><li>One</li><li><b>Two</b></li></ul></div>',
+    )
+    const { ast } = render(doc)
+    const [heading, list] = ast as [
+      SemanticMarkdownAST.Node,
+      SemanticMarkdownAST.ListNode,
+    ]
+    expect(heading.source?.element).toBe(doc.querySelector('h2'))
+    expect(heading.source?.selector).toBe('#app > h2:nth-of-type(1)')
+    expect(heading.source?.xpath).toBe('/html[1]/body[1]/div[1]/h2[1]')
+    expect(list.items[1].source?.element).toBe(doc.querySelectorAll('li')[1])
+    expect(list.items[1].content[0].source?.element).toBe(
+      doc.querySelector('b'),
+    )
+    expect(doc.querySelector(heading.source!.selector)).toBe(
+      heading.source!.element,
+    )
+  })
+
+  test('maps output ranges to nodes and elements', () => {
+    const doc = parse(
+      '<p>Hello <a href="/x">world</a>, <em>again</em>.</p><blockquote><p>Quoted</p></blockquote><table><tr><th>A</th></tr><tr><td>cell</td></tr></table>',
+    )
+    const { markdown, sourceMap } = render(doc)
+    for (const entry of sourceMap) {
+      expect(markdown.slice(entry.start, entry.end).trim()).toBe(
+        markdown.slice(entry.start, entry.end),
+      )
+    }
+    const textOf = (selector: string) =>
+      sourceMap
+        .filter(entry => entry.element === doc.querySelector(selector))
+        .map(entry => markdown.slice(entry.start, entry.end))
+
+    expect(textOf('a')).toEqual(['[world](/x)', 'world'])
+    expect(textOf('blockquote')).toEqual(['> Quoted'])
+    expect(textOf('blockquote p')).toEqual(['Quoted', 'Quoted'])
+    expect(textOf('em')).toEqual(['*again*', 'again'])
+    expect(textOf('td')).toEqual(['cell', 'cell'])
+    expect(textOf('tr:last-child')).toEqual(['| cell |'])
+
+    const index = markdown.indexOf('world')
+    expect(
+      findSourceMapEntries(sourceMap, index, index + 5).map(
+        entry => entry.element,
+      ),
+    ).toEqual([doc.querySelector('a')])
+  })
+
+  test('attributes overrideElementProcessing results to the element', () => {
+    const doc = parse('<p>Before <x-widget>ignored</x-widget></p>')
+    const { markdown, sourceMap } = render(doc, {
+      overrideElementProcessing: element => {
+        if (element.tagName === 'X-WIDGET') {
+          return [
+            {
+              type: 'bold',
+              content: [{ type: 'text', content: 'Widget' }],
+            },
+          ]
+        }
+      },
+    })
+    const widget = doc.querySelector('x-widget')
+    expect(markdown).toBe('Before **Widget**\n\n')
+    expect(
+      sourceMap
+        .filter(entry => entry.element === widget)
+        .map(entry => markdown.slice(entry.start, entry.end)),
+    ).toEqual(['**Widget**', 'Widget'])
+  })
+
+  test('offsets entries by the front matter', () => {
+    const doc = parse(
+      '<html><head><title>Page</title></head><body><p>Body</p></body></html>',
+    )
+    const sourceMap: SourceMapEntry[] = []
+    const ast = htmlToMarkdownAST(doc.documentElement, {
+      includeMetaData: 'basic',
+      enableSourceTracking: true,
+    })
+    const markdown = markdownASTToString(ast, {
+      emitFrontMatter: true,
+      sourceMap,
+    })
+    expect(sourceMap[0]).toMatchObject({ node: { type: 'meta' }, start: 0 })
+    const body = sourceMap.find(
+      entry => entry.element === doc.querySelector('p'),
+    )!
+    expect(markdown.slice(body.start, body.end)).toBe('Body')
+  })
+})
@@ -0,0 +1,109 @@
+import { JSDOM } from 'jsdom'
+import {
+  type ConversionOptions,
+  type ConversionPlugin,
+  convertElementToMarkdown,
+  htmlToMarkdownAST,
+  registerTranslator,
+} from '../src'
+
+describe('Translator registry', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function convert(html: string, options?: ConversionOptions) {
+    const doc = new dom.window.DOMParser().parseFromString(html, 'text/html')
+    return convertElementToMarkdown(doc.body, options)
+  }
+
+  const calloutPlugin: ConversionPlugin = {
+    name: 'callout',
+    translators: {
+      'x-callout'(element, result, options) {
+        result.push({
+          type: 'blockquote',
+          content: htmlToMarkdownAST(element, options),
+        })
+      },
+      'div.warning'(element, result, options) {
+        result.push({ type: 'bold', content: 'Warning:' })
+        result.push(...htmlToMarkdownAST(element, options))
+      },
+    },
+  }
+
+  test('uses plugin translators for custom elements and selectors', () => {
+    expect(
+      convert(
+        '<x-callout><p>Note</p></x-callout><div class="warning">Careful</div>',
+        { plugins: [calloutPlugin] },
+      ),
+    ).toBe('> Note\n\n**Warning:** Careful')
+  })
+
+  test('wraps the default translator', () => {
+    const plugin: ConversionPlugin = {
+      translators: {
+        a(element, result, _options, _indentLevel, next) {
+          if (element.getAttribute('rel') === 'nofollow') {
+            return
+          }
+          next()
+        },
+      },
+    }
+    expect(
+      convert(
+        '<p><a href="/a">Kept</a> <a href="/b" rel="nofollow">Dropped</a></p>',
+        { plugins: [plugin] },
+      ),
+    ).toBe('[Kept](/a)\n\n')
+  })
+
+  test('falls back to the default handling of unknown elements', () => {
+    const plugin: ConversionPlugin = {
+      translators: {
+        'x-card'(_element, result, _options, _indentLevel, next) {
+          result.push({ type: 'text', content: 'Card:' })
+          next()
+        },
+      },
+    }
+    expect(
+      convert('<x-card><b>Title</b></x-card>', { plugins: [plugin] }),
+    ).toBe('Card: **Title**')
+  })
+
+  test('later plugins and registrations take precedence', () => {
+    const events: string[] = []
+    const unregister = registerTranslator('em', (...args) => {
+      events.push('registered')
+      args[4]()
+    })
+    const plugin = (name: string): ConversionPlugin => ({
+      translators: {
+        em(_element, _result, _options, _indentLevel, next) {
+          events.push(name)
+          next()
+        },
+      },
+    })
+    try {
+      expect(
+        convert('<em>Hi</em>', {
+          plugins: [plugin('first'), plugin('second')],
+        }),
+      ).toBe('*Hi*')
+      expect(events).toEqual(['second', 'first', 'registered'])
+    } finally {
+      unregister()
+    }
+    events.length = 0
+    convert('<em>Hi</em>')
+    expect(events).toEqual([])
+  })
+})
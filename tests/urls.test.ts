@@ -0,0 +1,235 @@
+import { JSDOM } from 'jsdom'
+import {
+  cleanUrl,
+  type ConversionOptions,
+  convertElementToMarkdown,
+  derefifyUrls,
+  htmlToMarkdownAST,
+  markdownToAST,
+  refifyUrls,
+  type UrlContext,
+} from '../src'
+
+describe('URL resolution', () => {
+  let dom: JSDOM
+
+  beforeEach(() => {
+    dom = new JSDOM('<!doctype html><html><body></body></html>')
+    global.document = dom.window.document
+  })
+
+  function parse(html: string) {
+    return new dom.window.DOMParser().parseFromString(html, 'text/html')
+  }
+
+  const body =
+    '<a href="../about">About</a> <a href="https://other.com/x">Other</a> ' +
+    '<img src="logo.png" srcset="logo@2x.png 2x" alt="Logo">' +
+    '<video src="/intro.mp4" poster="poster.jpg"><track src="en.vtt"></video>'
+
+  test('resolves URLs against the baseUrl option', () => {
+    const markdown = convertElementToMarkdown(parse(body).body, {
+      baseUrl: 'https://example.com/docs/guide/',
+    })
+    expect(markdown).toContain('[About](https://example.com/docs/about)')
+    expect(markdown).toContain('[Other](https://other.com/x)')
+    expect(markdown).toContain(
+      '![Logo](https://example.com/docs/guide/logo@2x.png)',
+    )
+    expect(markdown).toContain('![Video](https://example.com/intro.mp4)')
+    expect(markdown).toContain(
+      '![Poster](https://example.com/docs/guide/poster.jpg)',
+    )
+    expect(markdown).toContain('(https://example.com/docs/guide/en.vtt)')
+  })
+
+  test('prefers <base href> and rewrites same-origin URLs', () => {
+    const doc = parse(
+      `<html><head><base href="/blog/"><meta property="og:image" content="cover.jpg"></head><body>${body}</body></html>`,
+    )
+    const ast = htmlToMarkdownAST(doc.documentElement, {
+      baseUrl: 'https://example.com/docs/guide/',
+      sameOriginUrls: 'root-relative',
+      includeMetaData: 'extended',
+    })
+    expect(ast[0]).toMatchObject({
+      type: 'meta',
+      content: { openGraph: { image: '/blog/cover.jpg' } },
+    })
+    const markdown = convertElementToMarkdown(doc.body, {
+      baseUrl: 'https://example.com/docs/guide/',
+      sameOriginUrls: 'root-relative',
+    })
+    expect(markdown).toContain('[About](/about)')
+    expect(markdown).toContain('[Other](https://other.com/x)')
+    expect(markdown).toContain('![Logo](/blog/logo@2x.png)')
+  })
+
+  test('keeps relative URLs without a base URL', () => {
+    expect(convertElementToMarkdown(parse(body).body)).toContain(
+      '[About](../about)',
+    )
+  })
+
+  test('cleans tracking parameters and redirects', () => {
+    expect(
+      cleanUrl(
+        'https://www.google.com/url?q=https://example.com/a?utm_source=x%26id%3D1',
+      ),
+    ).toBe('https://example.com/a?id=1')
+    expect(
+      cleanUrl(
+        'https://l.facebook.com/l.php?u=https%3A%2F%2Fnews.example%2Fstory%3Ffbclid%3Dabc&h=xyz',
+      ),
+    ).toBe('https://news.example/story')
+    expect(cleanUrl('/page?utm_medium=email&page=2#top')).toBe(
+      '/page?page=2#top',
+    )
+    expect(cleanUrl('/search?q=a+b')).toBe('/search?q=a+b')
+    // Kept parameters aren't re-encoded.
+    expect(
+      cleanUrl(
+        'https://cdn.example/f.png?name=a%20b&path=/x,y:z&utm_source=x&sig=a%2Bb',
+      ),
+    ).toBe('https://cdn.example/f.png?name=a%20b&path=/x,y:z&sig=a%2Bb')
+    expect(cleanUrl('/page?utm%5Fsource=x&q=1')).toBe('/page?q=1')
+  })
+
+  test('passes URLs through rewriteUrl', () => {
+    const contexts: [string, UrlContext['kind'], string | undefined][] = []
+    const markdown = convertElementToMarkdown(
+      parse(
+        '<p><a href="https://ads.example/click?gclid=1">Ad</a> and <a href="https://example.com/?utm_campaign=x">home</a></p>' +
+          '<img src="https://ads.example/pixel.png" alt="Pixel">' +
+          '<video src="https://cdn.example/v.mp4"></video>',
+      ).body,
+      {
+        cleanUrls: true,
+        rewriteUrl(url, context) {
+          contexts.push([url, context.kind, context.element?.tagName])
+          if (url.startsWith('https://ads.example/')) {
+            return null
+          }
+          if (context.kind === 'media') {
+            return url.replace('cdn.example', 'media.example')
+          }
+        },
+      },
+    )
+    expect(markdown).toBe(
+      'Ad and [home](https://example.com/)\n\n' +
+        '\n![Video](https://media.example/v.mp4)\n\n',
+    )
+    expect(contexts).toEqual([
+      ['https://ads.example/click', 'link', 'A'],
+      ['https://example.com/', 'link', 'A'],
+      ['https://ads.example/pixel.png', 'image', 'IMG'],
+      ['https://cdn.example/v.mp4', 'media', 'VIDEO'],
+    ])
+  })
+
+  test('rewrites URLs of parsed Markdown with refifyUrls', () => {
+    const ast = markdownToAST(
+      '[Read](https://example.com/a?utm_source=feed) ![Pixel](https://ads.example/p.gif)\n',
+    )
+    refifyUrls(
+      ast,
+      {},
+      {
+        cleanUrls: true,
+        rewriteUrl: url => (url.includes('ads.example') ? null : undefined),
+      },
+    )
+    expect(ast).toMatchObject([
+      { type: 'link', href: 'https://example.com/a' },
+      { type: 'text', content: ' ' },
+      { type: 'lineBreak' },
+    ])
+  })
+
+  test('rewrites URLs inside dropped links', () => {
+    const ast = markdownToAST(
+      '<a href="https://ads.example/click">![Logo](https://example.com/logo.png?utm_source=ad) <a href="https://example.com/?fbclid=1">Home</a></a>\n',
+    )
+    const urlMap = {}
+    refifyUrls(ast, urlMap, {
+      cleanUrls: true,
+      rewriteUrl: url => (url.includes('ads.example') ? null : undefined),
+    })
+    expect(ast).toMatchObject([
+      { type: 'image', src: 'ref0://logo.png' },
+      { type: 'text', content: ' ' },
+      { type: 'link', href: 'https://example.com/' },
+      { type: 'lineBreak' },
+    ])
+    expect(urlMap).toEqual({ 'https://example.com': 'ref0' })
+  })
+
+  describe('refs', () => {
+    const html =
+      '<p><a href="https://example.com/docs/guide/intro">Intro</a> ' +
+      '<img src="https://cdn.example.com/img/a.png" alt="A"> ' +
+      '<img src="https://cdn.example.com/img/b.png?w=2" alt="B"></p>' +
+      '<h2><a href="https://example.com/docs/api/v2/list">List</a></h2>'
+
+    test('names refs in a stable order and restores the URLs', () => {
+      const options: ConversionOptions = { refifyUrls: true }
+      const markdown = convertElementToMarkdown(parse(html).body, options)
+      expect(options.urlMap).toEqual({
+        'https://cdn.example.com/img': 'ref0',
+        'https://example.com/docs/api/v2/list': 'ref1',
+        'https://example.com/docs/guide/intro': 'ref2',
+      })
+      expect(markdown).toBe(
+        '[Intro](ref2)![A](ref0://a.png)![B](ref0://b.png?w=2)\n\n' +
+          '## [List](ref1)\n\n',
+      )
+      expect(derefifyUrls(markdown, options.urlMap!)).toBe(
+        convertElementToMarkdown(parse(html).body),
+      )
+      const ast = markdownToAST(markdown)
+      derefifyUrls(ast, options.urlMap!)
+      expect(ast[0]).toMatchObject({
+        type: 'paragraph',
+        content: [
+          { href: 'https://example.com/docs/guide/intro' },
+          { src: 'https://cdn.example.com/img/a.png' },
+          { src: 'https://cdn.example.com/img/b.png?w=2' },
+        ],
+      })
+    })
+
+    test('groups URLs by host or path prefix', () => {
+      const byHost: ConversionOptions = { refifyUrls: { groupBy: 'host' } }
+      expect(convertElementToMarkdown(parse(html).body, byHost)).toBe(
+        '[Intro](ref1://docs/guide/intro)![A](ref0://img/a.png)![B](ref0://img/b.png?w=2)\n\n' +
+          '## [List](ref1://docs/api/v2/list)\n\n',
+      )
+      const byPath: ConversionOptions = {
+        refifyUrls: { groupBy: 'pathPrefix' },
+      }
+      convertElementToMarkdown(parse(html).body, byPath)
+      expect(Object.keys(byPath.urlMap!)).toEqual([
+        'https://cdn.example.com/img',
+        'https://example.com/docs/api/v2',
+        'https://example.com/docs/guide',
+      ])
+    })
+
+    test('appends a ref table', () => {
+      expect(
+        convertElementToMarkdown(parse(html).body, {
+          refifyUrls: true,
+          emitRefTable: true,
+          urlMap: { 'https://unused.example/a/b/c': 'ref0' },
+        }),
+      ).toContain(
+        '| Ref | URL |\n' +
+          '| --- | --- |\n' +
+          '| ref1 | https://cdn.example.com/img |\n' +
+          '| ref2 | https://example.com/docs/api/v2/list |\n' +
+          '| ref3 | https://example.com/docs/guide/intro |\n',
+      )
+    })
+  })
+})